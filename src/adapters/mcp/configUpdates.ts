@@ -0,0 +1,52 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ILogger } from '../../core/interfaces/ILogger';
+import type { IConfigurationManager } from '../../core/services/ConfigurationManager';
+
+export const CONFIG_RESOURCE_URI = 'workspace://config';
+
+/**
+ * Hot-reload the supervisor configuration and announce each applied change
+ * to clients subscribed to `workspace://config` through
+ * `notifications/resources/updated`.
+ * Must be called before the server connects to its transport.
+ * @returns Function that stops watching the configuration
+ */
+export function registerConfigUpdates(
+  server: McpServer,
+  configManager: IConfigurationManager,
+  logger: ILogger
+): () => void {
+  const subscriptions = new Set<string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const removeListener =
+    configManager.onConfigChange?.(() => {
+      if (!subscriptions.has(CONFIG_RESOURCE_URI)) return;
+      server.server
+        .sendResourceUpdated({ uri: CONFIG_RESOURCE_URI })
+        .catch((error: unknown) =>
+          logger.warn('Failed to announce configuration change', {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
+    }) ?? ((): void => {});
+  configManager.watch?.();
+
+  return () => {
+    removeListener();
+    configManager.unwatch?.();
+  };
+}
@@ -0,0 +1,126 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ElicitRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { ApprovalRequest } from '../../core/interfaces/IApprovalService';
+import { ElicitationError } from '../../core/errors/RuleEngineErrors';
+
+type RequestedSchema = ElicitRequest['params']['requestedSchema'];
+
+/**
+ * Decision a human made in the client UI
+ */
+export interface ElicitedApproval {
+  decision: 'approve' | 'reject';
+  approver: string;
+  comment?: string;
+}
+
+/**
+ * Asks the human in the connected client through MCP
+ * `elicitation/create`, with a typed schema for each question
+ */
+export class McpElicitation {
+  private readonly server: McpServer;
+
+  constructor(server: McpServer) {
+    this.server = server;
+  }
+
+  /**
+   * Whether the connected client advertises the elicitation capability
+   */
+  isAvailable(): boolean {
+    return Boolean(this.server.server.getClientCapabilities()?.elicitation);
+  }
+
+  /**
+   * Ask for an approve/reject decision on a pending approval request.
+   * Resolves to null when the human dismisses the prompt.
+   */
+  async elicitApproval(
+    approval: ApprovalRequest
+  ): Promise<ElicitedApproval | null> {
+    const result = approval.phaseResult;
+    const summary = result
+      ? ` ${result.results.filter(rule => rule.passed).length} of ${result.results.length} rules passed; ${result.softFailures.length} soft failures.`
+      : '';
+    const content = await this.elicit(
+      `Approve moving the workspace${approval.from ? ` from '${approval.from}'` : ''} to phase '${approval.phase}'?${summary}`,
+      {
+        type: 'object',
+        properties: {
+          decision: {
+            type: 'string',
+            title: 'Decision',
+            enum: ['approve', 'reject'],
+            enumNames: ['Approve', 'Reject'],
+          },
+          approver: {
+            type: 'string',
+            title: 'Your name or email',
+            minLength: 1,
+          },
+          comment: {
+            type: 'string',
+            title: 'Comment',
+            description: 'Recorded in the audit log with the decision',
+          },
+        },
+        required: ['decision', 'approver'],
+      }
+    );
+    if (!content) return null;
+
+    return {
+      decision: content.decision === 'approve' ? 'approve' : 'reject',
+      approver: String(content.approver),
+      ...(typeof content.comment === 'string' &&
+        content.comment && { comment: content.comment }),
+    };
+  }
+
+  /**
+   * Ask for the text of plan sections that are missing. Resolves to the
+   * sections by name, or null when the human dismisses the prompt.
+   */
+  async elicitPlanSections(
+    sections: string[],
+    phase: string
+  ): Promise<Record<string, string> | null> {
+    const content = await this.elicit(
+      `The plan for phase '${phase}' is missing ${sections.map(section => `'${section}'`).join(', ')}. Please provide the missing sections.`,
+      {
+        type: 'object',
+        properties: Object.fromEntries(
+          sections.map(section => [
+            section,
+            { type: 'string', title: section, minLength: 1 },
+          ])
+        ),
+        required: sections,
+      }
+    );
+    if (!content) return null;
+
+    return Object.fromEntries(
+      sections.map(section => [section, String(content[section] ?? '')])
+    );
+  }
+
+  private async elicit(
+    message: string,
+    requestedSchema: RequestedSchema
+  ): Promise<Record<string, unknown> | null> {
+    if (!this.isAvailable()) {
+      throw new ElicitationError(
+        'Connected MCP client does not support elicitation',
+        { message }
+      );
+    }
+
+    const response = await this.server.server.elicitInput({
+      message,
+      requestedSchema,
+    });
+    return response.action === 'accept' ? (response.content ?? {}) : null;
+  }
+}
@@ -9,6 +9,7 @@ import type {
   IContextStore,
   ContextEntry,
 } from '../../core/interfaces/IContextStore';
+import { generateConfigJsonSchema } from '../../core/schemas/ConfigJsonSchema';
 
 /**
  * Register all MCP resources
@@ -113,6 +114,40 @@ export function registerMcpResources(
     }
   );
 
+  // Config Schema Resource
+  server.registerResource(
+    'config-schema',
+    'workspace://config-schema',
+    {
+      title: 'Configuration JSON Schema',
+      description:
+        'JSON Schema of .supervisorrc.json, including every rule type',
+      mimeType: 'application/schema+json',
+    },
+    async (uri: URL) => {
+      try {
+        logger.debug('Generating configuration JSON Schema');
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/schema+json',
+              text: JSON.stringify(generateConfigJsonSchema(), null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error(
+          'Failed to generate configuration JSON Schema',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        throw new Error(
+          `Failed to generate configuration JSON Schema: ${error}`
+        );
+      }
+    }
+  );
+
   // Rule Results Resource
   server.registerResource(
     'rule-results',
@@ -129,12 +164,17 @@ export function registerMcpResources(
         // Filtering support
         const limit = uri.searchParams?.get('limit');
         const since = uri.searchParams?.get('since');
+        const status = uri.searchParams?.get('status');
         if (since) {
           const sinceDate = new Date(since);
           results = results.filter(
             (r: any) => r.timestamp >= sinceDate.getTime()
           );
         }
+        if (status) {
+          const statuses = status.split(',');
+          results = results.filter((r: any) => statuses.includes(r.status));
+        }
         if (limit) {
           const n = parseInt(limit, 10);
           if (!isNaN(n)) results = results.slice(-n);
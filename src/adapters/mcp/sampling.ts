@@ -0,0 +1,103 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ILogger } from '../../core/interfaces/ILogger';
+import type { AiVerdictType } from '../../core/schemas/RuleEngineSchemas';
+import { AiProviderError } from '../../core/errors/RuleEngineErrors';
+import {
+  buildAiAgentPrompt,
+  parseAiVerdict,
+  type AiAgentRequest,
+  type IAiAgentProvider,
+  type IAiAgentProviderRegistry,
+} from '../../core/services/AiAgentProviders';
+
+/**
+ * Options for the MCP sampling provider
+ */
+export interface McpSamplingProviderOptions {
+  // Provider used when the connected client cannot sample
+  fallback?: IAiAgentProvider;
+  maxTokens?: number;
+}
+
+/**
+ * AI agent provider that asks the connected client's model to evaluate
+ * rules through MCP `sampling/createMessage`, so no API keys live on the server
+ */
+export class McpSamplingAiAgentProvider implements IAiAgentProvider {
+  readonly name = 'mcp-sampling';
+  private readonly server: McpServer;
+  private readonly options: McpSamplingProviderOptions;
+
+  constructor(server: McpServer, options: McpSamplingProviderOptions = {}) {
+    this.server = server;
+    this.options = options;
+  }
+
+  /**
+   * Whether the connected client advertises the sampling capability
+   */
+  isAvailable(): boolean {
+    return Boolean(this.server.server.getClientCapabilities()?.sampling);
+  }
+
+  async evaluate(request: AiAgentRequest): Promise<AiVerdictType> {
+    if (!this.isAvailable()) {
+      if (this.options.fallback) {
+        return this.options.fallback.evaluate(request);
+      }
+      throw new AiProviderError(
+        'Connected MCP client does not support sampling and no fallback AI provider is configured',
+        { provider: this.name, agent: request.agent }
+      );
+    }
+
+    const prompt = buildAiAgentPrompt(request);
+    const response = await this.server.server.createMessage(
+      {
+        systemPrompt: prompt.system,
+        messages: [
+          { role: 'user', content: { type: 'text', text: prompt.user } },
+        ],
+        maxTokens: this.options.maxTokens ?? 2048,
+        temperature: 0,
+        includeContext: 'none',
+        modelPreferences: { hints: [{ name: request.agent }] },
+      },
+      { signal: request.signal }
+    );
+
+    if (response.content.type !== 'text') {
+      throw new AiProviderError(
+        `Sampling returned ${response.content.type} content instead of text`,
+        { provider: this.name, model: response.model }
+      );
+    }
+
+    return parseAiVerdict(response.content.text);
+  }
+}
+
+/**
+ * Route AI rules through client sampling.
+ * The sampling provider becomes the default and falls back to the
+ * previously configured default when the client lacks sampling.
+ * @param server - MCP Server instance
+ * @param providers - AI agent provider registry used by AI rules
+ * @param logger - Logger instance
+ */
+export function registerMcpSampling(
+  server: McpServer,
+  providers: IAiAgentProviderRegistry,
+  logger: ILogger
+): McpSamplingAiAgentProvider {
+  const fallback = providers.getDefault();
+  const provider = new McpSamplingAiAgentProvider(server, { fallback });
+
+  providers.register(provider.name, provider);
+  providers.setDefault(provider);
+
+  logger.debug('Registered MCP sampling AI agent provider', {
+    fallback: fallback?.name ?? null,
+  });
+  return provider;
+}
@@ -1,6 +1,24 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import z from 'zod';
 import { IMcpWorkspaceSupervisor } from '../../core/interfaces/IMcpWorkspaceSupervisor';
+import {
+  RuleStatusSchema,
+  type RuleExecutionResult,
+  type ViolationType,
+} from '../../core/schemas/RuleEngineSchemas';
+import {
+  PlanSchema,
+  type PlanValidationResultType,
+} from '../../core/schemas/EnrichmentSchemas';
+import { McpElicitation } from './elicitation';
+
+/**
+ * Text content carrying a JSON document, as MCP has no JSON content type
+ */
+const jsonContent = (data: unknown): { type: 'text'; text: string } => ({
+  type: 'text',
+  text: JSON.stringify(data, null, 2),
+});
 
 /**
  * Register all MCP tools
@@ -12,6 +30,8 @@ export function registerMcpTools(
   workspaceSupervisor: IMcpWorkspaceSupervisor
 ): void {
   const logger = workspaceSupervisor.getLogger();
+  // Asks the human in the client UI when approvals or plan sections are missing
+  const elicitation = new McpElicitation(server);
 
   // Register workspace scan tool
   server.registerTool(
@@ -71,14 +91,17 @@ export function registerMcpTools(
           .describe('Optional parameters for the rule'),
       },
     },
-    async ({ ruleId, params }) => {
+    async ({ ruleId, params }, { signal }) => {
       try {
         logger.info('Running rule', { ruleId, params });
         const ruleEngine = workspaceSupervisor.getRuleEngine?.();
         if (!ruleEngine) throw new Error('Rule engine not available');
         // Use params as context.input if provided
         const context = params ? { input: params } : {};
-        const result = await ruleEngine.executeRule(ruleId, context);
+        // Cancelling the MCP request aborts the rule
+        const result = await ruleEngine.executeRule(ruleId, context, {
+          signal,
+        });
         return {
           content: [{ type: 'json', data: result }],
         };
@@ -100,18 +123,25 @@ export function registerMcpTools(
     'validate-config',
     {
       title: 'Validate Config',
-      description: 'Validate the current workspace configuration',
-      inputSchema: {},
+      description:
+        'Validate the workspace .supervisorrc and list diagnostics with file, line, column, code frame and suggestions',
+      inputSchema: {
+        configPath: z
+          .string()
+          .optional()
+          .describe('Config file to validate (defaults to the active one)'),
+      },
     },
-    async () => {
+    async ({ configPath }) => {
       try {
         logger.info('Validating workspace config');
         const configManager = workspaceSupervisor.getConfigManager?.();
-        const config = workspaceSupervisor.getConfig();
-        if (!configManager) throw new Error('Config manager not available');
-        configManager.validateConfig(config); // Throws if invalid
+        if (!configManager?.diagnoseConfig) {
+          throw new Error('Config manager not available');
+        }
+        const report = await configManager.diagnoseConfig(configPath);
         return {
-          content: [{ type: 'json', data: { valid: true } }],
+          content: [{ type: 'json', data: report }],
         };
       } catch (error) {
         logger.error(
@@ -187,7 +217,8 @@ export function registerMcpTools(
     'get-rule-results',
     {
       title: 'Get Rule Results',
-      description: 'Get recent rule execution results',
+      description:
+        'Get recent rule execution results with their status (passed, failed, skipped, errored, timeout or waived)',
       inputSchema: {
         limit: z
           .number()
@@ -196,12 +227,21 @@ export function registerMcpTools(
           .max(100)
           .optional()
           .describe('Max number of results'),
+        status: z
+          .array(RuleStatusSchema)
+          .optional()
+          .describe('Only return results with one of these statuses'),
       },
     },
-    async ({ limit }) => {
+    async ({ limit, status }) => {
       try {
-        logger.info('Retrieving rule results', { limit });
-        const results = workspaceSupervisor.getRecentRuleResults?.() || [];
+        logger.info('Retrieving rule results', { limit, status });
+        let results = workspaceSupervisor.getRecentRuleResults?.() || [];
+        if (status) {
+          results = results.filter((result: RuleExecutionResult) =>
+            status.includes(result.status)
+          );
+        }
         const limited = limit ? results.slice(-limit) : results;
         return {
           content: [{ type: 'json', data: limited }],
@@ -221,6 +261,127 @@ export function registerMcpTools(
     }
   );
 
+  // Register get-rule-violations tool
+  server.registerTool(
+    'get-rule-violations',
+    {
+      title: 'Get Rule Violations',
+      description:
+        'Get the located problems found by the latest run of each rule, ordered by file and line',
+      inputSchema: {
+        ruleId: z.string().optional().describe('Only violations of this rule'),
+        file: z
+          .string()
+          .optional()
+          .describe('Only violations in this workspace-relative file'),
+      },
+    },
+    async ({ ruleId, file }) => {
+      try {
+        logger.info('Retrieving rule violations', { ruleId, file });
+        // Results are oldest first, so later runs of a rule replace earlier ones
+        const latest = new Map<string, RuleExecutionResult>();
+        for (const result of workspaceSupervisor.getRecentRuleResults?.() ||
+          []) {
+          latest.set(result.ruleId, result);
+        }
+        const violations: ViolationType[] = [...latest.values()]
+          .flatMap(result => result.violations ?? [])
+          .filter(
+            violation =>
+              (!ruleId || violation.ruleId === ruleId) &&
+              (!file || violation.file === file)
+          )
+          .sort(
+            (a, b) =>
+              (a.file ?? '').localeCompare(b.file ?? '') ||
+              (a.range?.start.line ?? 0) - (b.range?.start.line ?? 0) ||
+              (a.range?.start.column ?? 0) - (b.range?.start.column ?? 0)
+          );
+        return {
+          content: [jsonContent(violations)],
+        };
+      } catch (error) {
+        logger.error(
+          'Failed to get rule violations',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        return {
+          content: [
+            { type: 'text', text: `Failed to get rule violations: ${error}` },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Register get-rule-cache-stats tool
+  server.registerTool(
+    'get-rule-cache-stats',
+    {
+      title: 'Get Rule Cache Stats',
+      description:
+        'Get rule result cache hits, misses and entry counts for this session',
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        const ruleEngine = workspaceSupervisor.getRuleEngine?.();
+        if (!ruleEngine) throw new Error('Rule engine not available');
+        const stats = await ruleEngine.getCacheStats();
+        if (!stats) throw new Error('Rule result cache not available');
+        return {
+          content: [jsonContent(stats)],
+        };
+      } catch (error) {
+        logger.error(
+          'Failed to get rule cache stats',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        return {
+          content: [
+            { type: 'text', text: `Failed to get rule cache stats: ${error}` },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Register clear-rule-cache tool
+  server.registerTool(
+    'clear-rule-cache',
+    {
+      title: 'Clear Rule Cache',
+      description:
+        'Drop every cached rule result so the next runs execute all rules',
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        logger.info('Clearing rule result cache');
+        const ruleEngine = workspaceSupervisor.getRuleEngine?.();
+        if (!ruleEngine) throw new Error('Rule engine not available');
+        await ruleEngine.clearCache();
+        return {
+          content: [{ type: 'text', text: 'Rule result cache cleared' }],
+        };
+      } catch (error) {
+        logger.error(
+          'Failed to clear rule cache',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        return {
+          content: [
+            { type: 'text', text: `Failed to clear rule cache: ${error}` },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // Register list-plugins tool
   server.registerTool(
     'list-plugins',
@@ -354,16 +515,29 @@ export function registerMcpTools(
     'get-current-config',
     {
       title: 'Get Current Config',
-      description: 'Get the currently used .supervisorrc configuration',
+      description:
+        'Get the effective .supervisorrc configuration, with the applied environment overlay and the files each rule came from',
       inputSchema: {},
     },
     async () => {
       try {
         logger.info('Getting current .supervisorrc config');
-        const config = workspaceSupervisor.getConfig?.();
-        if (!config) throw new Error('No config loaded');
+        const configManager = workspaceSupervisor.getConfigManager?.();
+        if (!configManager) throw new Error('No config loaded');
+        if (!configManager.isConfigLoaded()) {
+          await configManager.loadConfig();
+        }
         return {
-          content: [{ type: 'json', data: config }],
+          content: [
+            {
+              type: 'json',
+              data: {
+                environment: configManager.getEnvironment?.() ?? null,
+                config: configManager.getConfig(),
+                provenance: configManager.getProvenance?.() ?? null,
+              },
+            },
+          ],
         };
       } catch (error) {
         logger.error(
@@ -379,4 +553,275 @@ export function registerMcpTools(
       }
     }
   );
+
+  // Register get-phase tool
+  server.registerTool(
+    'get-phase',
+    {
+      title: 'Get Phase',
+      description:
+        'Get the workflow phase the workspace is in and the phases it may move to',
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        logger.info('Getting current phase');
+        const transitions = workspaceSupervisor.getPhaseTransitionService?.();
+        if (!transitions) {
+          throw new Error('Phase transition service not available');
+        }
+        const state = await transitions.getCurrentPhase();
+        return {
+          content: [
+            jsonContent({
+              ...state,
+              transitions: await transitions.listTransitions(state.phase),
+            }),
+          ],
+        };
+      } catch (error) {
+        logger.error(
+          'Failed to get phase',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        return {
+          content: [{ type: 'text', text: `Failed to get phase: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Register list-transitions tool
+  server.registerTool(
+    'list-transitions',
+    {
+      title: 'List Transitions',
+      description: 'List the phases the workflow allows moving to',
+      inputSchema: {
+        from: z
+          .string()
+          .optional()
+          .describe(
+            'Phase to list transitions from (defaults to the current one)'
+          ),
+      },
+    },
+    async ({ from }) => {
+      try {
+        logger.info('Listing phase transitions', { from });
+        const transitions = workspaceSupervisor.getPhaseTransitionService?.();
+        if (!transitions) {
+          throw new Error('Phase transition service not available');
+        }
+        return {
+          content: [jsonContent(await transitions.listTransitions(from))],
+        };
+      } catch (error) {
+        logger.error(
+          'Failed to list transitions',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        return {
+          content: [
+            { type: 'text', text: `Failed to list transitions: ${error}` },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Register request-transition tool
+  server.registerTool(
+    'request-transition',
+    {
+      title: 'Request Transition',
+      description:
+        'Move the workspace to another phase; promotions only complete when the exit, entry and phase rules pass and any required approval exists. Missing approvals are asked from the human when the client supports elicitation',
+      inputSchema: {
+        to: z.string().describe('Phase to move to'),
+        context: z
+          .record(z.any())
+          .optional()
+          .describe(
+            'Rule execution context, e.g. files, metrics, code or metadata'
+          ),
+      },
+    },
+    async ({ to, context }, { signal }) => {
+      try {
+        logger.info('Requesting phase transition', { to });
+        const transitions = workspaceSupervisor.getPhaseTransitionService?.();
+        if (!transitions) {
+          throw new Error('Phase transition service not available');
+        }
+        let result = await transitions.requestTransition(to, context, {
+          signal,
+        });
+
+        // Without elicitation the pending approval is left to the
+        // approval tools and the HTTP endpoint
+        const approvals = workspaceSupervisor.getApprovalService?.();
+        if (
+          result.status === 'awaiting-approval' &&
+          result.approval &&
+          approvals &&
+          elicitation.isAvailable()
+        ) {
+          const answer = await elicitation.elicitApproval(result.approval);
+          if (answer) {
+            await approvals[answer.decision](
+              result.approval.id,
+              answer.approver,
+              answer.comment
+            );
+            if (answer.decision === 'approve') {
+              result = await transitions.requestTransition(to, context, {
+                signal,
+              });
+            }
+          }
+        }
+
+        return {
+          content: [jsonContent(result)],
+          isError: result.status !== 'completed',
+        };
+      } catch (error) {
+        logger.error(
+          'Failed to request transition',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        return {
+          content: [
+            { type: 'text', text: `Failed to request transition: ${error}` },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Register list-approvals tool
+  server.registerTool(
+    'list-approvals',
+    {
+      title: 'List Approvals',
+      description:
+        'List human approval requests for gated phases, with the phase results they cover',
+      inputSchema: {
+        status: z
+          .enum(['pending', 'approved', 'rejected', 'expired'])
+          .optional()
+          .describe('Only list requests with this status'),
+        phase: z.string().optional().describe('Only list requests for a phase'),
+      },
+    },
+    async ({ status, phase }) => {
+      try {
+        logger.info('Listing approvals', { status, phase });
+        const approvals = workspaceSupervisor.getApprovalService?.();
+        if (!approvals) throw new Error('Approval service not available');
+        return {
+          content: [
+            jsonContent(await approvals.listApprovals({ status, phase })),
+          ],
+        };
+      } catch (error) {
+        logger.error(
+          'Failed to list approvals',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        return {
+          content: [
+            { type: 'text', text: `Failed to list approvals: ${error}` },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Register check-plan tool
+  server.registerTool(
+    'check-plan',
+    {
+      title: 'Check Plan',
+      description:
+        'Validate a plan against the sections a phase requires; missing sections are asked from the human when the client supports elicitation',
+      inputSchema: {
+        phase: z.string().describe('Phase the plan is checked for'),
+        plan: z
+          .object({
+            sections: z.array(
+              z.object({
+                name: z.string().describe('Section heading'),
+                content: z.string().describe('Section text'),
+              })
+            ),
+          })
+          .describe('Plan to check'),
+      },
+    },
+    async ({ phase, plan }) => {
+      try {
+        logger.info('Checking plan', { phase });
+        const planValidator = workspaceSupervisor.getPlanValidator?.();
+        if (!planValidator) throw new Error('Plan validator not available');
+        const requiredSections = await planValidator.getRequiredSections(phase);
+        const context = { phase, workspaceRoot: process.cwd() };
+        // Fills in the schema defaults the validator expects
+        const validate = (
+          sections: typeof plan.sections
+        ): Promise<PlanValidationResultType> =>
+          planValidator.validatePlanForEnrichment(
+            PlanSchema.parse({ sections }),
+            requiredSections,
+            context
+          );
+        let validation = await validate(plan.sections);
+
+        const missing: string[] = validation.missingSections;
+        if (missing.length > 0) {
+          if (!elicitation.isAvailable()) {
+            throw new Error(
+              `Plan is missing ${missing.join(', ')} and the client does not support elicitation; add the sections and check again`
+            );
+          }
+          const answers = await elicitation.elicitPlanSections(missing, phase);
+          if (!answers) {
+            throw new Error(
+              `Plan is missing ${missing.join(', ')} and the sections were not provided`
+            );
+          }
+          plan = {
+            ...plan,
+            sections: [
+              ...plan.sections,
+              ...Object.entries(answers).map(([name, content]) => ({
+                name,
+                content,
+              })),
+            ],
+          };
+          validation = await validate(plan.sections);
+        }
+
+        return {
+          content: [jsonContent({ plan, validation })],
+          isError: !validation.isValid,
+        };
+      } catch (error) {
+        logger.error(
+          'Failed to check plan',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        return {
+          content: [{ type: 'text', text: `Failed to check plan: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
 }
@@ -1,8 +1,16 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { ITransportAdapter } from '../../core/interfaces/ITransportAdapter';
+import type {
+  ApprovalStatus,
+  IApprovalService,
+} from '../../core/interfaces/IApprovalService';
+import {
+  ApprovalError,
+  ApprovalNotFoundError,
+} from '../../core/errors/RuleEngineErrors';
 import express from 'express';
-import { randomUUID } from 'node:crypto';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { Server } from 'http';
 
@@ -16,6 +24,9 @@ export interface HttpTransportConfig {
   };
   timeout?: number;
   maxRequestSize?: string;
+  // Bearer token humans send to the /approvals routes; they are not served
+  // without one, as the agent reaches the same host and port
+  approvalToken?: string;
 }
 
 /**
@@ -31,7 +42,15 @@ export class HttpTransport implements ITransportAdapter {
   private transports: { [sessionId: string]: StreamableHTTPServerTransport } =
     {};
 
-  constructor(config: HttpTransportConfig) {
+  /**
+   * @param config - HTTP server configuration
+   * @param approvals - Approval service exposed under /approvals, so a
+   * human can decide outside the agent's session
+   */
+  constructor(
+    config: HttpTransportConfig,
+    private readonly approvals?: IApprovalService
+  ) {
     this.config = config;
   }
 
@@ -149,6 +168,18 @@ export class HttpTransport implements ITransportAdapter {
     // Handle DELETE requests for session termination
     this.app.delete('/mcp', handleSessionRequest);
 
+    if (this.approvals && this.config.approvalToken) {
+      this.registerApprovalRoutes(
+        this.app,
+        this.approvals,
+        this.config.approvalToken
+      );
+    } else if (this.approvals) {
+      console.warn(
+        'Approval endpoints are disabled: no approval token is configured'
+      );
+    }
+
     // Start the HTTP server
     this.httpServer = this.app.listen(
       this.config.port,
@@ -166,6 +197,82 @@ export class HttpTransport implements ITransportAdapter {
     this.transport = Object.values(this.transports)[0] || null;
   }
 
+  /**
+   * Serve approval requests: list and read them, and approve or reject
+   * pending ones with `{ approver, comment }` bodies. Every route requires
+   * `Authorization: Bearer <token>`.
+   */
+  private registerApprovalRoutes(
+    app: express.Application,
+    approvals: IApprovalService,
+    token: string
+  ): void {
+    const expected = Buffer.from(`Bearer ${token}`);
+    app.use('/approvals', (req, res, next) => {
+      const received = Buffer.from(req.headers.authorization ?? '');
+      if (
+        received.length !== expected.length ||
+        !timingSafeEqual(received, expected)
+      ) {
+        res.status(401).json({ error: 'A valid approval token is required' });
+        return;
+      }
+      next();
+    });
+
+    const handle =
+      (
+        action: (req: express.Request) => Promise<unknown>
+      ): express.RequestHandler =>
+      async (req, res) => {
+        try {
+          res.json(await action(req));
+        } catch (error) {
+          if (error instanceof ApprovalNotFoundError) {
+            res.status(404).json({ error: error.message });
+          } else if (error instanceof ApprovalError) {
+            res.status(409).json({ error: error.message });
+          } else {
+            console.error('Error handling approval request:', error);
+            res.status(500).json({ error: 'Internal server error' });
+          }
+        }
+      };
+
+    const decide =
+      (decision: 'approve' | 'reject') =>
+      (req: express.Request): Promise<unknown> => {
+        const { approver, comment } = req.body ?? {};
+        if (typeof approver !== 'string') {
+          throw new ApprovalError(
+            'An approver identity is required',
+            req.params.id!
+          );
+        }
+        return approvals[decision](
+          req.params.id!,
+          approver,
+          typeof comment === 'string' ? comment : undefined
+        );
+      };
+
+    app.get(
+      '/approvals',
+      handle(req =>
+        approvals.listApprovals({
+          status: req.query.status as ApprovalStatus | undefined,
+          phase: req.query.phase as string | undefined,
+        })
+      )
+    );
+    app.get(
+      '/approvals/:id',
+      handle(req => approvals.getApproval(req.params.id!))
+    );
+    app.post('/approvals/:id/approve', handle(decide('approve')));
+    app.post('/approvals/:id/reject', handle(decide('reject')));
+  }
+
   /**
    * Disconnect the HTTP transport
    */
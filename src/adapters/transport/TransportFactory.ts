@@ -1,11 +1,14 @@
 import { StdioTransport } from './StdioTransport';
 import { HttpTransport, HttpTransportConfig } from './HttpTransport';
 import { ITransportAdapter } from '../../core/interfaces/ITransportAdapter';
+import type { IApprovalService } from '../../core/interfaces/IApprovalService';
 
 export type TransportType = 'stdio' | 'http';
 
 export interface TransportOptions {
   http?: HttpTransportConfig;
+  // Served by the HTTP transport so approvals can be decided outside MCP
+  approvals?: IApprovalService;
 }
 
 /**
@@ -30,7 +33,7 @@ export class TransportFactory {
         if (!options?.http) {
           throw new Error('HTTP transport requires configuration options');
         }
-        return new HttpTransport(options.http);
+        return new HttpTransport(options.http, options.approvals);
 
       default:
         throw new Error(`Unsupported transport type: ${type}`);
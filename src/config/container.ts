@@ -1,4 +1,5 @@
 import 'reflect-metadata';
+import { join } from 'path';
 import { Container, ContainerModule } from 'inversify';
 import { ILogger } from '../core/interfaces/ILogger';
 import { Logger } from '../core/services/Logger';
@@ -19,6 +20,9 @@ import { IContextStore } from '../core/interfaces/IContextStore';
 import { IMCPHandler } from '../core/interfaces/IMCPHandler';
 import { IAuditLogService } from '../core/interfaces/IAuditLogService';
 import type { IContextPersistence } from '../core/interfaces/IContextPersistence';
+import type { IPhaseTransitionService } from '../core/interfaces/IPhaseTransitionService';
+import type { IApprovalService } from '../core/interfaces/IApprovalService';
+import type { IRuleResultCache } from '../core/interfaces/IRuleResultCache';
 
 // Import new services
 import { RuleEngine } from '../core/services/RuleEngine';
@@ -29,6 +33,15 @@ import { ContextStore } from '../core/services/ContextStore';
 import { MCPHandler } from '../core/services/MCPHandler';
 import { AuditLogService } from '../core/services/AuditLogService';
 import { FileContextPersistence } from '../core/services/FileContextPersistence';
+import { PhaseTransitionService } from '../core/services/PhaseTransitionService';
+import {
+  ApprovalService,
+  APPROVALS_FILE,
+} from '../core/services/ApprovalService';
+import {
+  RuleResultCache,
+  RULE_CACHE_DIR,
+} from '../core/services/RuleResultCache';
 import {
   ConfigurationManager,
   IConfigurationManager,
@@ -44,6 +57,10 @@ import {
   RuleExecutorFactory,
   IRuleExecutorFactory,
 } from '../core/services/RuleExecutors';
+import {
+  createAiAgentProviderRegistry,
+  IAiAgentProviderRegistry,
+} from '../core/services/AiAgentProviders';
 import { WorkspaceManager } from '../core/services/WorkspaceManager';
 import { IWorkspaceManager } from '../core/interfaces/IWorkspaceManager';
 
@@ -83,6 +100,9 @@ const coreModule = new ContainerModule((bind: interfaces.Bind) => {
     .inSingletonScope();
   bind<IPluginRegistry>(TYPES.PluginRegistry).to(PluginRegistry);
   bind<IPluginManager>(TYPES.PluginManager).to(PluginManager);
+  bind<IAiAgentProviderRegistry>(TYPES.AiAgentProviderRegistry)
+    .toDynamicValue(() => createAiAgentProviderRegistry())
+    .inSingletonScope();
   bind<IRuleExecutorFactory>(TYPES.RuleExecutorFactory).to(RuleExecutorFactory);
   bind<IRuleEngine>(TYPES.RuleEngine).to(RuleEngine);
   bind<IPlanValidator>(TYPES.PlanValidator).to(PlanValidator);
@@ -107,6 +127,28 @@ const coreModule = new ContainerModule((bind: interfaces.Bind) => {
   bind<IWorkspaceManager>(TYPES.WorkspaceManager)
     .to(WorkspaceManager)
     .inSingletonScope();
+  bind<IApprovalService>(TYPES.ApprovalService)
+    .toDynamicValue(
+      ctx =>
+        new ApprovalService(
+          join(process.cwd(), APPROVALS_FILE),
+          ctx.container.get<IAuditLogService>(TYPES.AuditLogService),
+          ctx.container.get<ILogger>(TYPES.Logger)
+        )
+    )
+    .inSingletonScope();
+  bind<IRuleResultCache>(TYPES.RuleResultCache)
+    .toDynamicValue(
+      ctx =>
+        new RuleResultCache(
+          join(process.cwd(), RULE_CACHE_DIR),
+          ctx.container.get<ILogger>(TYPES.Logger)
+        )
+    )
+    .inSingletonScope();
+  bind<IPhaseTransitionService>(TYPES.PhaseTransitionService).to(
+    PhaseTransitionService
+  );
   bind<ConfigurationManagerFactory>(
     TYPES.ConfigurationManagerFactory
   ).toFactory<ConfigurationManager>(context => {
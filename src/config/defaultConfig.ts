@@ -17,27 +17,31 @@ export const defaultConfig: SupervisorConfigType = {
       requireHumanApproval: false,
     },
     planned: {
-      enforce: ['plan-validation'],
+      enforce: ['rule:plan-validation'],
       requirePlan: true,
       requireHumanApproval: false,
     },
     coded: {
-      enforce: ['code-quality', 'test-coverage'],
+      enforce: ['rule:code-quality', 'rule:test-coverage'],
       requirePlan: true,
       requireHumanApproval: false,
     },
     tested: {
-      enforce: ['test-validation', 'code-quality'],
+      enforce: ['rule:test-validation', 'rule:code-quality'],
       requirePlan: true,
       requireHumanApproval: false,
     },
     reviewed: {
-      enforce: ['review-checklist', 'security-scan'],
+      enforce: ['rule:review-checklist', 'rule:security-scan'],
       requirePlan: true,
       requireHumanApproval: true,
     },
     production: {
-      enforce: ['deployment-checklist', 'security-scan', 'performance-check'],
+      enforce: [
+        'rule:deployment-checklist',
+        'rule:security-scan',
+        'rule:performance-check',
+      ],
       requirePlan: true,
       requireHumanApproval: true,
     },
@@ -85,10 +89,9 @@ export const defaultConfig: SupervisorConfigType = {
     },
     'security-scan': {
       id: 'security-scan',
-      type: 'threshold',
+      type: 'security-posture',
       enforcement: 'hard',
-      target: 'security',
-      value: 0.0,
+      check: 'secrets,tracked-env-files,world-writable',
       message: 'No security vulnerabilities allowed',
     },
     'deployment-checklist': {
@@ -0,0 +1,32 @@
+import type { SupervisorConfigInputType } from '../core/schemas/RuleEngineSchemas';
+
+type SupervisorRuleInput = SupervisorConfigInputType['rules'][string];
+
+/**
+ * Config layered over `extends`: every section is optional and rules may
+ * only override the fields they tighten
+ */
+export type ExtendingSupervisorConfig = Omit<
+  Partial<SupervisorConfigInputType>,
+  'extends' | 'rules'
+> & {
+  extends: string | string[];
+  rules?: Record<string, Partial<SupervisorRuleInput>>;
+};
+
+/**
+ * Type helper for `supervisor.config.ts` / `.mjs` files.
+ * Returns the config unchanged; it is validated against the same schema as
+ * JSON and YAML configs when loaded.
+ *
+ * @example
+ * export default defineConfig({
+ *   extends: '@org/supervisor-baseline',
+ *   rules: { coverage: { value: 0.9 } },
+ * });
+ */
+export function defineConfig<
+  T extends SupervisorConfigInputType | ExtendingSupervisorConfig,
+>(config: T): T {
+  return config;
+}
@@ -0,0 +1,155 @@
+import type { SupervisorConfigInputType } from '../core/schemas/RuleEngineSchemas';
+import type { ProjectProfile } from '../core/services/ProjectDetection';
+
+export const CONFIG_PRESETS = ['strict', 'balanced', 'minimal'] as const;
+export type ConfigPreset = (typeof CONFIG_PRESETS)[number];
+
+type RuleInput = SupervisorConfigInputType['rules'][string];
+type Enforcement = RuleInput['enforcement'];
+
+const PLAN_SECTIONS: Record<ConfigPreset, string[]> = {
+  minimal: ['problem', 'solution'],
+  balanced: ['problem', 'solution', 'testing', 'risks'],
+  strict: ['problem', 'solution', 'implementation', 'testing', 'risks'],
+};
+
+const SECURITY_CHECKS: Record<ConfigPreset, string> = {
+  minimal: 'secrets',
+  balanced: 'secrets,tracked-env-files',
+  strict: 'all',
+};
+
+/**
+ * Build the rules that fit the detected project. `minimal` only guards
+ * against leaked secrets; `balanced` adds tests and, when commits are
+ * already linted by hooks, commit messages; `strict` enforces everything
+ * as hard rules.
+ */
+function buildRules(
+  profile: ProjectProfile,
+  preset: ConfigPreset
+): Record<string, RuleInput> {
+  const enforcement = (balanced: Enforcement): Enforcement =>
+    preset === 'strict' ? 'hard' : preset === 'minimal' ? 'soft' : balanced;
+  const rules: Record<string, RuleInput> = {};
+
+  const checks =
+    preset === 'balanced' && profile.packageManager
+      ? `${SECURITY_CHECKS.balanced},lockfile`
+      : SECURITY_CHECKS[preset];
+  rules['security-scan'] = {
+    id: 'security-scan',
+    type: 'security-posture',
+    enforcement: enforcement('hard'),
+    check: checks,
+    message: 'Security checks must pass',
+  };
+
+  if (profile.testFramework && preset !== 'minimal') {
+    const extensions = profile.typescript ? 'ts,tsx' : 'js,jsx';
+    rules['test-coverage'] = {
+      id: 'test-coverage',
+      type: 'threshold',
+      enforcement: enforcement('hard'),
+      target: 'metrics.coverage',
+      value: preset === 'strict' ? 0.9 : 0.75,
+      message: `Test coverage reported by ${profile.testFramework} is too low`,
+    };
+    rules['test-files'] = {
+      id: 'test-files',
+      type: 'structure',
+      enforcement: enforcement('soft'),
+      requiredFiles: [`**/*.{test,spec}.{${extensions}}`],
+      ...(profile.monorepo && { forEach: profile.monorepo.packages[0] }),
+      message: profile.monorepo
+        ? 'Every package needs tests'
+        : 'The project needs tests',
+    };
+  }
+
+  if (preset === 'strict' || (preset === 'balanced' && profile.gitHooks)) {
+    rules['conventional-commits'] = {
+      id: 'conventional-commits',
+      type: 'commit-message',
+      enforcement: enforcement('soft'),
+      pattern:
+        '^(feat|fix|docs|style|refactor|perf|test|build|ci|chore|revert)(\\([\\w.-]+\\))?!?: .+',
+      message: 'Commit messages must follow Conventional Commits',
+    };
+  }
+
+  if (preset === 'strict' && profile.monorepo) {
+    rules['package-layout'] = {
+      id: 'package-layout',
+      type: 'structure',
+      enforcement: 'hard',
+      forEach: profile.monorepo.packages[0],
+      requiredFiles: ['package.json', 'README.md'],
+      message: 'Every package needs a package.json and a README',
+    };
+  }
+
+  if (preset === 'strict' && profile.ciFiles.length > 0) {
+    rules['ci-config'] = {
+      id: 'ci-config',
+      type: 'structure',
+      enforcement: 'hard',
+      requiredFiles: profile.ciFiles,
+      message: 'CI configuration must not be removed',
+    };
+  }
+
+  return rules;
+}
+
+/**
+ * Configuration scaffolded by `init` for a detected project and preset
+ */
+export function buildInitialConfig(
+  profile: ProjectProfile,
+  preset: ConfigPreset
+): SupervisorConfigInputType {
+  const rules = buildRules(profile, preset);
+  const quality = Object.keys(rules).filter(id => id !== 'security-scan');
+  const ruleGroups: Record<string, string[]> = {
+    security: ['security-scan'],
+    ...(quality.length > 0 && { quality }),
+  };
+  const checks = [
+    ...(quality.length > 0 ? ['group:quality'] : []),
+    'group:security',
+  ];
+
+  const plan = {
+    requiredSections: [
+      ...PLAN_SECTIONS[preset],
+      ...(profile.monorepo && preset !== 'minimal' ? ['packages'] : []),
+    ],
+  };
+
+  const phases: SupervisorConfigInputType['phases'] =
+    preset === 'minimal'
+      ? {
+          draft: { enforce: [] },
+          coded: { enforce: checks },
+        }
+      : {
+          draft: { enforce: [] },
+          planned: { requirePlan: true },
+          coded: { enforce: checks, requirePlan: true },
+          reviewed: {
+            enforce: checks,
+            requirePlan: true,
+            requireHumanApproval: preset === 'strict',
+          },
+        };
+
+  return {
+    plan,
+    phases,
+    rules,
+    ruleGroups,
+    extensions: { plugins: [] },
+    defaults: { enforcement: preset === 'minimal' ? 'soft' : 'hard' },
+  };
+}
@@ -17,7 +17,11 @@ export const TYPES = {
   PluginRegistry: Symbol.for('PluginRegistry'),
   PluginManager: Symbol.for('PluginManager'),
   RuleExecutorFactory: Symbol.for('RuleExecutorFactory'),
+  AiAgentProviderRegistry: Symbol.for('AiAgentProviderRegistry'),
   AuditLogService: Symbol.for('AuditLogService'),
   ContextPersistence: Symbol.for('ContextPersistence'),
   WorkspaceManager: Symbol.for('WorkspaceManager'),
+  PhaseTransitionService: Symbol.for('PhaseTransitionService'),
+  ApprovalService: Symbol.for('ApprovalService'),
+  RuleResultCache: Symbol.for('RuleResultCache'),
 };
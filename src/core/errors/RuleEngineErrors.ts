@@ -46,6 +46,27 @@ export class RuleExecutionError extends RuleEngineError {
   }
 }
 
+/**
+ * Rule attempt ran past its timeout
+ */
+export class RuleTimeoutError extends RuleEngineError {
+  constructor(ruleId: string, timeoutMs: number) {
+    super(`Rule '${ruleId}' timed out after ${timeoutMs}ms`, 'RULE_TIMEOUT', {
+      ruleId,
+      timeoutMs,
+    });
+  }
+}
+
+/**
+ * Execution cancelled by the caller, e.g. an aborted MCP request
+ */
+export class ExecutionCancelledError extends RuleEngineError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 'EXECUTION_CANCELLED', context);
+  }
+}
+
 /**
  * Plugin loading/execution errors
  */
@@ -64,6 +85,15 @@ export class PluginLoadError extends RuleEngineError {
   }
 }
 
+/**
+ * AI agent provider request/response errors
+ */
+export class AiProviderError extends RuleEngineError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 'AI_PROVIDER_ERROR', context);
+  }
+}
+
 /**
  * Phase execution errors
  */
@@ -130,3 +160,50 @@ export class RuleGroupNotFoundError extends RuleEngineError {
     );
   }
 }
+
+/**
+ * Phase transition error
+ */
+export class PhaseTransitionError extends RuleEngineError {
+  constructor(
+    message: string,
+    from: string,
+    to: string,
+    context?: Record<string, any>
+  ) {
+    super(message, 'PHASE_TRANSITION_ERROR', { from, to, ...context });
+  }
+}
+
+/**
+ * Approval not found error
+ */
+export class ApprovalNotFoundError extends RuleEngineError {
+  constructor(approvalId: string) {
+    super(`Approval request '${approvalId}' not found`, 'APPROVAL_NOT_FOUND', {
+      approvalId,
+    });
+  }
+}
+
+/**
+ * Approval decision error
+ */
+export class ApprovalError extends RuleEngineError {
+  constructor(
+    message: string,
+    approvalId: string,
+    context?: Record<string, any>
+  ) {
+    super(message, 'APPROVAL_ERROR', { approvalId, ...context });
+  }
+}
+
+/**
+ * Elicitation error
+ */
+export class ElicitationError extends RuleEngineError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 'ELICITATION_ERROR', context);
+  }
+}
@@ -0,0 +1,99 @@
+import type { PhaseExecutionResult } from './IRuleEngine';
+
+/**
+ * `expired` requests timed out before a decision, were superseded by a newer
+ * request for the phase, or were approved but not used before their expiry
+ */
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+export interface ApprovalDecision {
+  // Identity of the human who decided
+  approver: string;
+  comment?: string;
+  decidedAt: string;
+}
+
+/**
+ * Human approval of a phase that has `requireHumanApproval`
+ */
+export interface ApprovalRequest {
+  id: string;
+  phase: string;
+  // Phase the workspace is promoted from
+  from?: string;
+  status: ApprovalStatus;
+  requestedBy: string;
+  requestedAt: string;
+  expiresAt: string;
+  // Rule results the approver is asked to sign off
+  phaseResult?: PhaseExecutionResult;
+  decision?: ApprovalDecision;
+  // Set once the approval let a transition complete
+  consumedAt?: string;
+}
+
+export interface ApprovalRequestOptions {
+  from?: string;
+  phaseResult?: PhaseExecutionResult;
+  requestedBy?: string;
+  // Time to live in milliseconds
+  ttl?: number;
+}
+
+export interface ApprovalQuery {
+  status?: ApprovalStatus;
+  phase?: string;
+}
+
+/**
+ * Interface for human approvals of gated phases
+ */
+export interface IApprovalService {
+  /**
+   * Open an approval request for a phase; an open request for the same
+   * phase expires, as it covers an older phase result
+   */
+  requestApproval(
+    phase: string,
+    options?: ApprovalRequestOptions
+  ): Promise<ApprovalRequest>;
+
+  /**
+   * Get an approval request by id
+   */
+  getApproval(id: string): Promise<ApprovalRequest>;
+
+  /**
+   * List approval requests, newest first
+   */
+  listApprovals(query?: ApprovalQuery): Promise<ApprovalRequest[]>;
+
+  /**
+   * Approve a pending request
+   */
+  approve(
+    id: string,
+    approver: string,
+    comment?: string
+  ): Promise<ApprovalRequest>;
+
+  /**
+   * Reject a pending request
+   */
+  reject(
+    id: string,
+    approver: string,
+    comment?: string
+  ): Promise<ApprovalRequest>;
+
+  /**
+   * Find an unused, unexpired approval of a phase, only among approvals of
+   * promotions from `from` when given
+   */
+  findApproval(phase: string, from?: string): Promise<ApprovalRequest | null>;
+
+  /**
+   * Mark an approval as used by a transition
+   */
+  consume(id: string): Promise<ApprovalRequest>;
+}
@@ -1,4 +1,5 @@
 import type { ILogger } from './ILogger';
+import type { RuleStatus } from '../schemas/RuleEngineSchemas';
 
 export interface AuditLogEntry {
   timestamp: number;
@@ -8,6 +9,8 @@ export interface AuditLogEntry {
   result?: Record<string, unknown>;
   deviation?: boolean;
   message?: string;
+  // Outcome of rule executions, so history can be filtered by it
+  status?: RuleStatus;
 }
 
 export interface IAuditLogService {
@@ -1,4 +1,7 @@
 import { ILogger } from './ILogger';
+import type { IPhaseTransitionService } from './IPhaseTransitionService';
+import type { IApprovalService } from './IApprovalService';
+import type { IPlanValidator } from './IPlanValidator';
 
 /**
  * Interface for MCP server configuration
@@ -63,4 +66,19 @@ export interface IMcpWorkspaceSupervisor {
    * Get the context store instance
    */
   getContextStore?(): any;
+
+  /**
+   * Get the phase transition service
+   */
+  getPhaseTransitionService?(): IPhaseTransitionService;
+
+  /**
+   * Get the approval service
+   */
+  getApprovalService?(): IApprovalService;
+
+  /**
+   * Get the plan validator
+   */
+  getPlanValidator?(): IPlanValidator;
 }
@@ -0,0 +1,70 @@
+import type {
+  RuleExecutionContextType,
+  RuleExecutionResult,
+} from '../schemas/RuleEngineSchemas';
+import type { PhaseExecutionResult, RuleExecutionOptions } from './IRuleEngine';
+import type { ApprovalRequest } from './IApprovalService';
+
+/**
+ * Phase the workspace is in, as kept in the context store
+ */
+export interface PhaseState {
+  phase: string;
+  // Phase the workspace was promoted or returned from
+  previous?: string;
+  // ISO date of the transition; unset for the initial phase
+  enteredAt?: string;
+}
+
+/**
+ * Outcome of a transition request. `blocked` means a hard rule failed and
+ * `awaiting-approval` that the rules passed but the target phase needs a
+ * human approval; the workspace stays where it was in both cases.
+ */
+export type PhaseTransitionStatus =
+  | 'completed'
+  | 'blocked'
+  | 'awaiting-approval';
+
+export interface PhaseTransitionResult {
+  from: string;
+  to: string;
+  status: PhaseTransitionStatus;
+  // Phase the workspace is in after the request
+  phase: string;
+  message: string;
+  // Exit rules of the current phase and entry rules of the target phase
+  exitResults: RuleExecutionResult[];
+  entryResults: RuleExecutionResult[];
+  // Rules of the target phase; unset when returning to an earlier phase
+  phaseResult?: PhaseExecutionResult;
+  // Hard failures that blocked the transition
+  failures: RuleExecutionResult[];
+  // Approval used by the transition, or the request opened for it
+  approval?: ApprovalRequest;
+}
+
+/**
+ * Interface for moving the workspace between workflow phases
+ */
+export interface IPhaseTransitionService {
+  /**
+   * Get the phase the workspace is in
+   */
+  getCurrentPhase(): Promise<PhaseState>;
+
+  /**
+   * List the phases reachable from a phase (defaults to the current one)
+   */
+  listTransitions(from?: string): Promise<string[]>;
+
+  /**
+   * Move the workspace to another phase if the workflow allows it, the
+   * guarding rules pass and any required approval exists
+   */
+  requestTransition(
+    to: string,
+    context?: Partial<RuleExecutionContextType>,
+    options?: RuleExecutionOptions
+  ): Promise<PhaseTransitionResult>;
+}
@@ -4,6 +4,7 @@ import {
   RuleExecutionContextType,
   RuleExecutionResult,
 } from '../schemas/RuleEngineSchemas';
+import type { RuleResultCacheStats } from './IRuleResultCache';
 
 /**
  * Phase execution result
@@ -14,9 +15,23 @@ export interface PhaseExecutionResult {
   results: RuleExecutionResult[];
   hardFailures: RuleExecutionResult[];
   softFailures: RuleExecutionResult[];
+  skipped: RuleExecutionResult[];
+  // Rules that errored or timed out; also listed as hard or soft failures
+  // depending on their enforcement and the `onRuleError` policy
+  errored: RuleExecutionResult[];
+  // Failures accepted by an active waiver; they do not block the phase
+  waived: RuleExecutionResult[];
   requiresHumanApproval: boolean;
 }
 
+/**
+ * Per-call execution options
+ */
+export interface RuleExecutionOptions {
+  // Cancels the execution, e.g. when the MCP request is cancelled
+  signal?: AbortSignal;
+}
+
 /**
  * Interface for rule engine operations (modern implementation only)
  */
@@ -36,7 +51,9 @@ export interface IRuleEngine {
    */
   executePhase(
     phase: string,
-    context: RuleExecutionContextType
+    context: RuleExecutionContextType,
+    concurrency?: number,
+    options?: RuleExecutionOptions
   ): Promise<PhaseExecutionResult>;
 
   /**
@@ -44,7 +61,8 @@ export interface IRuleEngine {
    */
   executeRule(
     ruleId: string,
-    context: RuleExecutionContextType
+    context: RuleExecutionContextType,
+    options?: RuleExecutionOptions
   ): Promise<RuleExecutionResult>;
 
   /**
@@ -52,7 +70,9 @@ export interface IRuleEngine {
    */
   executeRuleGroup(
     groupName: string,
-    context: RuleExecutionContextType
+    context: RuleExecutionContextType,
+    concurrency?: number,
+    options?: RuleExecutionOptions
   ): Promise<RuleExecutionResult[]>;
 
   /**
@@ -110,6 +130,16 @@ export interface IRuleEngine {
    */
   initialize(): Promise<void>;
 
+  /**
+   * Get rule result cache statistics, or null when caching is off
+   */
+  getCacheStats(): Promise<RuleResultCacheStats | null>;
+
+  /**
+   * Drop every cached rule result
+   */
+  clearCache(): Promise<void>;
+
   /**
    * Cleanup resources
    */
@@ -0,0 +1,45 @@
+import type { RuleExecutionResult } from '../schemas/RuleEngineSchemas';
+
+/**
+ * Rule result cache statistics
+ */
+export interface RuleResultCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  // Entries held in memory
+  entries: number;
+  // Entries written to disk, including those evicted from memory
+  diskEntries: number;
+}
+
+/**
+ * Interface for reusing rule results across executions with the same inputs
+ */
+export interface IRuleResultCache {
+  /**
+   * Get the result stored under a key
+   */
+  get(key: string): Promise<RuleExecutionResult | null>;
+
+  /**
+   * Store a result
+   */
+  set(key: string, result: RuleExecutionResult): Promise<void>;
+
+  /**
+   * Drop every entry when the config or plugin fingerprint changed. The
+   * stored fingerprint is only read again once the fingerprint changes.
+   */
+  syncFingerprint(fingerprint: string): Promise<void>;
+
+  /**
+   * Drop every entry
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Get hit, miss and size statistics
+   */
+  getStats(): Promise<RuleResultCacheStats>;
+}
@@ -0,0 +1,43 @@
+/**
+ * JSON Schema for supervisor configuration files
+ * Generated from SupervisorConfigSchema so editors can offer completion and
+ * inline errors while a .supervisorrc.json is edited
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { SupervisorConfigSchema } from './RuleEngineSchemas';
+
+// Where `createDefaultConfig` writes the schema, relative to the config file
+export const CONFIG_SCHEMA_PATH = '.supervisor/config.schema.json';
+
+/**
+ * Build the JSON Schema of a complete configuration. Every rule type is a
+ * variant keyed by its `type` and carries the descriptions of the Zod
+ * schemas. Definitions are inlined so the file stands on its own.
+ */
+export function generateConfigJsonSchema(): Record<string, unknown> {
+  const { $schema, ...schema } = zodToJsonSchema(SupervisorConfigSchema, {
+    $refStrategy: 'none',
+  });
+  return {
+    $schema,
+    title: 'MCP Supervisor configuration',
+    description:
+      'Phases, rules and plugins enforced by the MCP Workspace Supervisor',
+    ...schema,
+  };
+}
+
+/**
+ * Write the configuration JSON Schema to a file, creating its directory
+ */
+export function writeConfigJsonSchema(path: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(
+    path,
+    `${JSON.stringify(generateConfigJsonSchema(), null, 2)}\n`,
+    'utf-8'
+  );
+}
@@ -1,11 +1,17 @@
 import z from 'zod';
 
 /**
- * Zod schemas for validation following the .supervisorrc.json structure
+ * Zod schemas for validation following the .supervisorrc.json structure.
+ * Descriptions on the config schemas end up in the exported JSON Schema
+ * and are shown by editors as hover documentation.
  */
 
 // Enforcement level schema
-export const EnforcementLevelSchema = z.enum(['hard', 'soft']);
+export const EnforcementLevelSchema = z
+  .enum(['hard', 'soft'])
+  .describe(
+    'hard blocks the phase when the rule fails; soft only reports the failure'
+  );
 
 // Rule type schema
 export const RuleTypeSchema = z.enum([
@@ -16,68 +22,267 @@ export const RuleTypeSchema = z.enum([
   'commit-message', // NEW
   'security-posture', // NEW
   'structure', // NEW
+  'composite',
 ]);
 
+// Value compared against context metadata
+export const ConditionValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+]);
+
+// Metric comparison; a plain number means equality
+export const MetricConditionSchema = z.union([
+  z.number(),
+  z
+    .object({
+      eq: z.number(),
+      gt: z.number(),
+      gte: z.number(),
+      lt: z.number(),
+      lte: z.number(),
+    })
+    .partial(),
+]);
+
+// Rule `when` condition; every clause that is set must hold
+export const RuleConditionSchema = z
+  .object({
+    files: z
+      .union([z.string().min(1), z.array(z.string().min(1))])
+      .optional()
+      .describe('Globs; at least one changed file must match one of them'),
+    target: z
+      .union([z.string().min(1), z.array(z.string().min(1))])
+      .optional()
+      .describe('Globs or exact values matched against the context target'),
+    metadata: z
+      .record(
+        z.string(),
+        z.union([ConditionValueSchema, z.array(ConditionValueSchema)])
+      )
+      .optional()
+      .describe(
+        'Metadata paths mapped to an expected value, or a list of accepted values'
+      ),
+    metrics: z
+      .record(z.string(), MetricConditionSchema)
+      .optional()
+      .describe(
+        'Metric names mapped to a number (equality) or a comparison such as { "gte": 0.8 }'
+      ),
+  })
+  .describe(
+    'Condition under which the rule applies; every clause that is set must hold'
+  );
+
+// Timeout and retry settings, per rule or as defaults for every rule
+export const RuleExecutionPolicySchema = z.object({
+  timeoutMs: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Abandon an attempt that runs longer than this, in milliseconds'),
+  retries: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Extra attempts after an attempt throws or times out'),
+  retryBackoffMs: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Delay before the first retry; doubles after each retry'),
+});
+
 // Base supervisor rule schema
 export const SupervisorRuleBaseSchema = z.object({
-  id: z.string().min(1, 'Rule ID cannot be empty'),
+  id: z
+    .string()
+    .min(1, 'Rule ID cannot be empty')
+    .describe('Rule identifier; must match the key in `rules`'),
   type: RuleTypeSchema,
   enforcement: EnforcementLevelSchema,
   target: z.string().optional(),
-  message: z.string().optional(),
+  message: z
+    .string()
+    .optional()
+    .describe('Message reported when the rule fails'),
+  dependsOn: z
+    .array(z.string().min(1))
+    .optional()
+    .describe(
+      'Rules that must run first; this rule is skipped when one of them hard-fails'
+    ),
+  skipIfFailed: z
+    .boolean()
+    .optional()
+    .describe(
+      'Set to false to only order execution and run regardless of prerequisites'
+    ),
+  cache: z
+    .boolean()
+    .optional()
+    .describe(
+      'Set to false to run the rule every time instead of reusing the result for unchanged inputs'
+    ),
+  ...RuleExecutionPolicySchema.shape,
+  when: RuleConditionSchema.optional(),
 });
 
 // Threshold rule schema
 export const ThresholdRuleSchema = SupervisorRuleBaseSchema.extend({
   type: z.literal('threshold'),
-  target: z.string().min(1, 'Target is required for threshold rules'),
-  value: z.number().min(0).max(1, 'Threshold value must be between 0 and 1'),
-});
+  target: z
+    .string()
+    .min(1, 'Target is required for threshold rules')
+    .describe(
+      'Path of the context value to compare, such as `metrics.coverage`'
+    ),
+  value: z
+    .number()
+    .min(0)
+    .max(1, 'Threshold value must be between 0 and 1')
+    .describe('Minimum accepted value, between 0 and 1'),
+}).describe('Passes when a metric reaches a minimum value');
 
 // Pattern rule schema
 export const PatternRuleSchema = SupervisorRuleBaseSchema.extend({
   type: z.literal('pattern'),
-  pattern: z.string().min(1, 'Pattern is required for pattern rules'),
-  target: z.string().min(1, 'Target is required for pattern rules'),
-});
+  pattern: z
+    .string()
+    .min(1, 'Pattern is required for pattern rules')
+    .describe('Regular expression the target value must match'),
+  target: z
+    .string()
+    .min(1, 'Target is required for pattern rules')
+    .describe(
+      'Path of the context value to match, such as `code`, or `files` to match the contents of the changed files'
+    ),
+  forbid: z
+    .boolean()
+    .optional()
+    .describe('Fail when the pattern matches instead of when it does not'),
+  fix: z
+    .string()
+    .optional()
+    .describe('Suggested fix attached to every violation'),
+}).describe('Passes when a regular expression matches a context value');
 
 // AI rule schema
 export const AIRuleSchema = SupervisorRuleBaseSchema.extend({
   type: z.literal('ai'),
-  agent: z.string().min(1, 'Agent is required for AI rules'),
+  agent: z
+    .string()
+    .min(1, 'Agent is required for AI rules')
+    .describe('Name of the AI agent provider'),
   strategy: z.enum(['analyze-and-instruct', 'refactor', 'validate']),
-  instruction: z.string().min(1, 'Instruction is required for AI rules'),
-  refactorAllowed: z.boolean().optional().default(false),
-  target: z.string().min(1, 'Target is required for AI rules'),
+  instruction: z
+    .string()
+    .min(1, 'Instruction is required for AI rules')
+    .describe('Instruction given to the agent'),
+  refactorAllowed: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Allow the agent to return refactored content'),
+  target: z
+    .string()
+    .min(1, 'Target is required for AI rules')
+    .describe('Path of the context value the agent reviews, such as `code`'),
+}).describe('Asks an AI agent for a verdict on the target');
+
+// Structured verdict returned by an AI agent provider
+export const AiVerdictSchema = z.object({
+  passed: z.boolean(),
+  score: z.number().min(0).max(1).optional(),
+  message: z.string(),
+  suggestions: z.array(z.string()).optional().default([]),
+  refactoredContent: z.string().optional(),
 });
 
 // Plugin rule schema
 export const PluginRuleSchema = SupervisorRuleBaseSchema.extend({
   type: z.literal('plugin'),
-  plugin: z.string().min(1, 'Plugin path is required for plugin rules'),
-});
+  plugin: z
+    .string()
+    .min(1, 'Plugin path is required for plugin rules')
+    .describe('Name of a plugin loaded through `extensions.plugins`'),
+}).describe('Delegates the check to a loaded plugin');
 
 // Commit message rule schema
 export const CommitMessageRuleSchema = SupervisorRuleBaseSchema.extend({
   type: z.literal('commit-message'),
-  pattern: z.string().min(1, 'Pattern is required for commit message rules'),
+  pattern: z
+    .string()
+    .min(1, 'Pattern is required for commit message rules')
+    .describe('Regular expression the commit message must match'),
   message: z.string().optional(),
-});
+}).describe('Checks the commit message against a regular expression');
 
 // Security posture rule schema
 export const SecurityPostureRuleSchema = SupervisorRuleBaseSchema.extend({
   type: z.literal('security-posture'),
-  check: z.string().min(1, 'Check type is required for security posture rules'),
+  check: z
+    .string()
+    .min(1, 'Check type is required for security posture rules')
+    .describe('Name of the security check to run'),
   message: z.string().optional(),
-});
+}).describe('Runs a security posture check on the workspace');
 
 // Structure rule schema
 export const StructureRuleSchema = SupervisorRuleBaseSchema.extend({
   type: z.literal('structure'),
-  requiredFiles: z.array(z.string().min(1)),
-  requiredDirectories: z.array(z.string().min(1)).optional(),
+  requiredFiles: z.array(z.string().min(1)).describe('Files that must exist'),
+  requiredDirectories: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Directories that must exist'),
+  forbiddenPaths: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Paths that must not exist'),
+  forEach: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Glob of directories; when set, paths are checked relative to each match'
+    ),
   message: z.string().optional(),
-});
+}).describe('Checks that required files and directories exist');
+
+// Composite rule schema
+export const CompositeRuleSchema = SupervisorRuleBaseSchema.extend({
+  type: z.literal('composite'),
+  rules: z
+    .array(z.string().min(1))
+    .min(1, 'Composite rules must reference at least one rule')
+    .describe('Ids of the rules to combine'),
+  operator: z
+    .enum(['all', 'any', 'none', 'atLeast', 'weighted'])
+    .describe('How the child results are combined'),
+  count: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Minimum number of passing child rules for `atLeast`'),
+  weights: z
+    .record(z.string(), z.number().min(0))
+    .optional()
+    .describe('Child rule weights for `weighted` (default 1)'),
+  threshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe('Minimum weighted score for `weighted`'),
+}).describe('Combines the results of other rules');
 
 // Discriminated union for all supervisor rules
 export const SupervisorRuleSchema = z.discriminatedUnion('type', [
@@ -88,46 +293,180 @@ export const SupervisorRuleSchema = z.discriminatedUnion('type', [
   CommitMessageRuleSchema, // NEW
   SecurityPostureRuleSchema, // NEW
   StructureRuleSchema, // NEW
+  CompositeRuleSchema,
 ]);
 
+// Rule error policy schema: how rules that errored or timed out count when
+// they enforce `hard`
+export const RuleErrorPolicySchema = z
+  .enum(['fail', 'warn'])
+  .describe(
+    '`fail` blocks the phase on an errored or timed out hard rule; `warn` only reports it'
+  );
+
 // Phase configuration schema
 export const PhaseConfigSchema = z.object({
-  enforce: z.array(z.string()).optional(),
-  requirePlan: z.boolean().optional().default(false),
-  requireHumanApproval: z.boolean().optional().default(false),
+  enforce: z
+    .array(z.string())
+    .optional()
+    .describe('Entries to enforce, written as `rule:<id>` or `group:<name>`'),
+  requirePlan: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Require a plan with the required sections'),
+  requireHumanApproval: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Require a human approval before the phase completes'),
+  onRuleError: RuleErrorPolicySchema.optional(),
+});
+
+// Workflow step schema: where a phase may go next and what guards it
+export const WorkflowPhaseSchema = z.object({
+  next: z
+    .array(z.string().min(1))
+    .default([])
+    .describe('Phases the workspace may move to from this phase'),
+  onEnter: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Entries enforced before the workspace enters the phase, as `rule:<id>` or `group:<name>`'
+    ),
+  onExit: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Entries enforced before the workspace leaves the phase, as `rule:<id>` or `group:<name>`'
+    ),
+});
+
+// Workflow configuration schema
+export const WorkflowConfigSchema = z.object({
+  initial: z.string().min(1).describe('Phase a workspace starts in'),
+  phases: z
+    .record(z.string(), WorkflowPhaseSchema)
+    .describe('Allowed transitions and entry and exit rules by phase'),
 });
 
 // Plan configuration schema
 export const PlanConfigSchema = z.object({
   requiredSections: z
     .array(z.string().min(1))
-    .min(1, 'At least one required section must be specified'),
+    .min(1, 'At least one required section must be specified')
+    .describe('Headings a plan must contain'),
 });
 
 // Extensions configuration schema
 export const ExtensionsConfigSchema = z.object({
-  plugins: z.array(z.string().min(1)),
+  plugins: z
+    .array(z.string().min(1))
+    .describe('Plugin modules to load, as paths or package names'),
 });
 
 // Defaults configuration schema
 export const DefaultsConfigSchema = z.object({
   enforcement: EnforcementLevelSchema,
+  onRuleError: RuleErrorPolicySchema.optional(),
+  ...RuleExecutionPolicySchema.shape,
+});
+
+// Waiver schema: accepts a rule's failures within a scope until it expires
+const WaiverScopeValueSchema = z.union([
+  z.string().min(1),
+  z.array(z.string().min(1)).min(1),
+]);
+
+export const WaiverSchema = z.object({
+  rule: z.string().min(1).describe('Id of the waived rule'),
+  scope: z
+    .object({
+      branch: WaiverScopeValueSchema.optional().describe(
+        'Branches the waiver covers, as globs over `metadata.branch`'
+      ),
+      files: WaiverScopeValueSchema.optional().describe(
+        'Globs every changed file must match for the waiver to apply'
+      ),
+      ticket: WaiverScopeValueSchema.optional().describe(
+        'Tickets the waiver covers, matched against `metadata.ticket`'
+      ),
+    })
+    .refine(
+      scope => Object.values(scope).some(value => value !== undefined),
+      'A waiver scope needs a branch, files or ticket'
+    )
+    .describe('Where the waiver applies; every clause given must match'),
+  reason: z.string().min(1).describe('Why the failure is accepted'),
+  author: z.string().min(1).describe('Who granted the waiver'),
+  expires: z
+    .string()
+    .refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date')
+    .describe(
+      'Last day the failure is accepted, e.g. 2025-06-30 (through the end of the day, UTC), or a timestamp at which it blocks again'
+    ),
 });
 
+// Environment overlay schema; values are deep-merged over the base config
+export const EnvironmentOverlaySchema = z
+  .object({
+    rules: z.record(z.string(), z.record(z.string(), z.unknown())),
+    phases: z.record(z.string(), PhaseConfigSchema.partial()),
+    defaults: DefaultsConfigSchema.partial(),
+  })
+  .partial()
+  .strict()
+  .describe('Values deep-merged over the base configuration');
+
 // Complete supervisor configuration schema
 export const SupervisorConfigSchema = z.object({
+  $schema: z
+    .string()
+    .optional()
+    .describe('JSON Schema used by editors for completion and validation'),
+  version: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      'Configuration format version; older configs are migrated when loaded, plain JSON files after a backup'
+    ),
+  extends: z
+    .union([z.string().min(1), z.array(z.string().min(1))])
+    .optional()
+    .describe('Files or packages this config is layered on top of'),
   plan: PlanConfigSchema,
-  phases: z.record(z.string(), PhaseConfigSchema),
-  rules: z.record(z.string(), SupervisorRuleSchema),
-  ruleGroups: z.record(z.string(), z.array(z.string().min(1))),
+  phases: z
+    .record(z.string(), PhaseConfigSchema)
+    .describe('Workflow phases and the rules they enforce'),
+  workflow: WorkflowConfigSchema.optional().describe(
+    'Allowed phase transitions; without it phases advance in declaration order'
+  ),
+  rules: z.record(z.string(), SupervisorRuleSchema).describe('Rules by id'),
+  ruleGroups: z
+    .record(z.string(), z.array(z.string().min(1)))
+    .describe('Named lists of rule ids, enforced as `group:<name>`'),
+  waivers: z
+    .record(z.string(), WaiverSchema)
+    .optional()
+    .describe('Accepted rule failures by waiver id'),
   extensions: ExtensionsConfigSchema,
   defaults: DefaultsConfigSchema,
+  environments: z
+    .record(z.string(), EnvironmentOverlaySchema)
+    .optional()
+    .describe('Named overlays selected by --env, SUPERVISOR_ENV or NODE_ENV'),
 });
 
 // Rule execution context schema
 export const RuleExecutionContextSchema = z.object({
   phase: z.string().min(1),
   target: z.string().min(1),
+  workspaceRoot: z.string().optional(),
+  // Changed files relative to the workspace root, used by `when.files`
+  files: z.array(z.string()).optional(),
   code: z.string().optional(),
   metrics: z.record(z.string(), z.number()).optional(),
   metadata: z.record(z.string(), z.any()).optional(),
@@ -144,23 +483,65 @@ export const LegacyRuleSchema = z.object({
   enabled: z.boolean(),
 });
 
+// 1-based position in a file or context value
+export const SourcePositionSchema = z.object({
+  line: z.number().int().min(1),
+  column: z.number().int().min(1),
+});
+
+// Problem a rule found, located precisely enough to jump to it
+export const ViolationSchema = z.object({
+  ruleId: z.string(),
+  severity: z.enum(['error', 'warning', 'info']),
+  message: z.string(),
+  // Workspace-relative path; absent when the rule read a context value
+  // such as `code`
+  file: z.string().optional(),
+  // Absent when the problem concerns the whole file or value, such as a
+  // required pattern that is missing
+  range: z
+    .object({ start: SourcePositionSchema, end: SourcePositionSchema })
+    .optional(),
+  // Line the range starts on
+  snippet: z.string().optional(),
+  fix: z.string().optional(),
+});
+
 // Rule result schema
 export const RuleResultSchema = z.object({
   passed: z.boolean(),
   message: z.string().optional(),
   score: z.number().min(0).max(1).optional(),
+  violations: z.array(ViolationSchema).optional(),
   data: z.record(z.unknown()).optional(),
 });
 
+// Outcome of a rule execution: `failed` means the rule ran and found a
+// problem, `errored` and `timeout` mean it could not reach a verdict
+export const RuleStatusSchema = z.enum([
+  'passed',
+  'failed',
+  'skipped',
+  'errored',
+  'timeout',
+  'waived',
+]);
+
 // Rule execution result schema (for rule engine execution)
 export const RuleExecutionResultSchema = z.object({
   ruleId: z.string(),
   ruleType: z.string(),
   enforcement: z.string(),
+  status: RuleStatusSchema,
   passed: z.boolean(),
   message: z.string().optional(),
   score: z.number().min(0).max(1).optional(),
   executionTime: z.number(),
+  // Set when the rule did not run because a prerequisite failed
+  skipped: z.boolean().optional(),
+  // Set when the result was reused from the rule result cache
+  cached: z.boolean().optional(),
+  violations: z.array(ViolationSchema).optional(),
   data: z.record(z.unknown()).optional(),
 });
 
@@ -169,21 +550,32 @@ export const PluginConfigSchema = z.record(z.unknown());
 
 // Type exports for use in other files
 export type SupervisorConfigType = z.infer<typeof SupervisorConfigSchema>;
+export type EnvironmentOverlayType = z.infer<typeof EnvironmentOverlaySchema>;
+// Config as authored, before schema defaults are applied
+export type SupervisorConfigInputType = z.input<typeof SupervisorConfigSchema>;
 export type SupervisorRuleType = z.infer<typeof SupervisorRuleSchema>;
 export type ThresholdRuleType = z.infer<typeof ThresholdRuleSchema>;
 export type PatternRuleType = z.infer<typeof PatternRuleSchema>;
 export type AIRuleType = z.infer<typeof AIRuleSchema>;
+export type AiVerdictType = z.infer<typeof AiVerdictSchema>;
 export type PluginRuleType = z.infer<typeof PluginRuleSchema>;
 export type CommitMessageRuleType = z.infer<typeof CommitMessageRuleSchema>;
 export type SecurityPostureRuleType = z.infer<typeof SecurityPostureRuleSchema>;
 export type StructureRuleType = z.infer<typeof StructureRuleSchema>;
+export type CompositeRuleType = z.infer<typeof CompositeRuleSchema>;
 export type PhaseConfigType = z.infer<typeof PhaseConfigSchema>;
+export type WaiverType = z.infer<typeof WaiverSchema>;
+export type WorkflowConfigType = z.infer<typeof WorkflowConfigSchema>;
+export type RuleConditionType = z.infer<typeof RuleConditionSchema>;
 export type RuleExecutionContextType = z.infer<
   typeof RuleExecutionContextSchema
 >;
 export type RuleExecutionResultType = z.infer<typeof RuleExecutionResultSchema>;
+export type RuleStatus = z.infer<typeof RuleStatusSchema>;
+export type RuleErrorPolicy = z.infer<typeof RuleErrorPolicySchema>;
 export type LegacyRuleType = z.infer<typeof LegacyRuleSchema>;
 export type RuleResultType = z.infer<typeof RuleResultSchema>;
+export type ViolationType = z.infer<typeof ViolationSchema>;
 export type PluginConfigType = z.infer<typeof PluginConfigSchema>;
 
 // Convenience type aliases for cleaner imports
@@ -0,0 +1,312 @@
+/**
+ * AI agent providers used by AI rules
+ * A provider sends a rule instruction plus target content to a model
+ * and returns a structured verdict
+ */
+
+import {
+  AiVerdictSchema,
+  type AIRuleType,
+  type AiVerdictType,
+} from '../schemas/RuleEngineSchemas';
+import { AiProviderError } from '../errors/RuleEngineErrors';
+
+/**
+ * Request sent to an AI agent provider
+ */
+export interface AiAgentRequest {
+  ruleId: string;
+  agent: string;
+  strategy: AIRuleType['strategy'];
+  instruction: string;
+  target: string;
+  content: string;
+  refactorAllowed: boolean;
+  // Aborts when the rule times out or the caller cancels
+  signal?: AbortSignal;
+}
+
+/**
+ * AI agent provider interface
+ */
+export interface IAiAgentProvider {
+  readonly name: string;
+  evaluate(request: AiAgentRequest): Promise<AiVerdictType>;
+}
+
+/**
+ * AI agent provider registry interface
+ * Providers are keyed by the rule's `agent`; the default provider
+ * handles agents without a dedicated registration.
+ */
+export interface IAiAgentProviderRegistry {
+  register(agent: string, provider: IAiAgentProvider): void;
+  setDefault(provider: IAiAgentProvider): void;
+  getDefault(): IAiAgentProvider | undefined;
+  resolve(agent: string): IAiAgentProvider | undefined;
+  list(): string[];
+}
+
+/**
+ * Chat messages for a request
+ */
+export interface AiAgentPrompt {
+  system: string;
+  user: string;
+}
+
+const STRATEGY_INSTRUCTIONS: Record<AIRuleType['strategy'], string> = {
+  'analyze-and-instruct':
+    'Analyze the content against the instruction. Fail it only for real violations and list concrete instructions to fix them as suggestions.',
+  refactor:
+    'Check the content against the instruction. When it fails, propose the corrected content.',
+  validate:
+    'Strictly validate the content against the instruction. Pass it only when every requirement is met.',
+};
+
+const VERDICT_FORMAT =
+  'Respond with a single JSON object and nothing else: {"passed": boolean, "score": number between 0 and 1, "message": string, "suggestions": string[], "refactoredContent"?: string}';
+
+/**
+ * Build the system and user messages for a request
+ */
+export function buildAiAgentPrompt(request: AiAgentRequest): AiAgentPrompt {
+  const refactorNote =
+    request.strategy === 'refactor' && request.refactorAllowed
+      ? 'Include the full corrected content as "refactoredContent".'
+      : 'Do not include "refactoredContent".';
+
+  return {
+    system: [
+      'You are a code supervisor enforcing a project rule.',
+      STRATEGY_INSTRUCTIONS[request.strategy],
+      refactorNote,
+      VERDICT_FORMAT,
+    ].join('\n'),
+    user: [
+      `Rule: ${request.ruleId}`,
+      `Instruction: ${request.instruction}`,
+      `Target (${request.target}):`,
+      '"""',
+      request.content,
+      '"""',
+    ].join('\n'),
+  };
+}
+
+/**
+ * Parse a model response into a verdict.
+ * Accepts bare JSON or JSON wrapped in a markdown code fence.
+ */
+export function parseAiVerdict(text: string): AiVerdictType {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  const candidate = (fenced?.[1] ?? text).trim();
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+
+  if (start === -1 || end < start) {
+    throw new AiProviderError('AI response does not contain a JSON verdict', {
+      response: text,
+    });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    throw new AiProviderError('AI response contains malformed JSON', {
+      response: text,
+    });
+  }
+
+  const result = AiVerdictSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new AiProviderError(
+      `AI verdict is invalid: ${result.error.issues
+        .map(issue => `${issue.path.join('.') || 'verdict'}: ${issue.message}`)
+        .join('; ')}`,
+      { response: text }
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Options for the OpenAI-compatible provider
+ */
+export interface OpenAICompatibleProviderOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  temperature?: number;
+}
+
+/**
+ * Provider for any endpoint implementing the OpenAI chat completions API
+ * (OpenAI, Azure OpenAI proxies, Ollama, LM Studio, vLLM, ...)
+ */
+export class OpenAICompatibleProvider implements IAiAgentProvider {
+  readonly name = 'openai-compatible';
+  private readonly options: OpenAICompatibleProviderOptions;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.options = options;
+  }
+
+  async evaluate(request: AiAgentRequest): Promise<AiVerdictType> {
+    const prompt = buildAiAgentPrompt(request);
+    const url = `${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.options.model,
+        temperature: this.options.temperature ?? 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: prompt.system },
+          { role: 'user', content: prompt.user },
+        ],
+      }),
+      signal: AbortSignal.any([
+        AbortSignal.timeout(this.options.timeoutMs ?? 60_000),
+        ...(request.signal ? [request.signal] : []),
+      ]),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new AiProviderError(
+        `AI provider request failed with status ${response.status}`,
+        { provider: this.name, url, status: response.status, body }
+      );
+    }
+
+    const payload = (await response.json()) as {
+      choices?: Array<{ message?: { content?: string | null } }>;
+    };
+    const content = payload.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new AiProviderError('AI provider returned an empty response', {
+        provider: this.name,
+        url,
+      });
+    }
+
+    return parseAiVerdict(content);
+  }
+}
+
+/**
+ * Options for the stub provider
+ */
+export interface StubAiAgentProviderOptions {
+  // Content containing any of these markers fails
+  failOn?: string[];
+}
+
+/**
+ * Deterministic offline provider for tests and local runs.
+ * Fails empty content and content containing a fail marker.
+ */
+export class StubAiAgentProvider implements IAiAgentProvider {
+  readonly name = 'stub';
+  private readonly failOn: string[];
+
+  constructor(options: StubAiAgentProviderOptions = {}) {
+    this.failOn = options.failOn ?? ['TODO', 'FIXME'];
+  }
+
+  async evaluate(request: AiAgentRequest): Promise<AiVerdictType> {
+    if (!request.content.trim()) {
+      return {
+        passed: false,
+        score: 0,
+        message: `Target '${request.target}' is empty`,
+        suggestions: [],
+      };
+    }
+
+    const found = this.failOn.filter(marker =>
+      request.content.includes(marker)
+    );
+    if (found.length === 0) {
+      return {
+        passed: true,
+        score: 1,
+        message: `Content satisfies: ${request.instruction}`,
+        suggestions: [],
+      };
+    }
+
+    return {
+      passed: false,
+      score: 0,
+      message: `Content contains ${found.join(', ')}`,
+      suggestions: found.map(marker => `Resolve ${marker} markers`),
+    };
+  }
+}
+
+/**
+ * AI agent provider registry implementation
+ */
+export class AiAgentProviderRegistry implements IAiAgentProviderRegistry {
+  private readonly providers = new Map<string, IAiAgentProvider>();
+  private defaultProvider?: IAiAgentProvider;
+
+  register(agent: string, provider: IAiAgentProvider): void {
+    this.providers.set(agent, provider);
+  }
+
+  setDefault(provider: IAiAgentProvider): void {
+    this.defaultProvider = provider;
+  }
+
+  getDefault(): IAiAgentProvider | undefined {
+    return this.defaultProvider;
+  }
+
+  resolve(agent: string): IAiAgentProvider | undefined {
+    return this.providers.get(agent) ?? this.defaultProvider;
+  }
+
+  list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+/**
+ * Create a registry from environment variables.
+ * `stub` is always available; an OpenAI-compatible provider is registered
+ * as `openai` and used as the default when `SUPERVISOR_AI_BASE_URL`,
+ * `SUPERVISOR_AI_API_KEY` or `OPENAI_API_KEY` is set.
+ */
+export function createAiAgentProviderRegistry(
+  env: NodeJS.ProcessEnv = process.env
+): IAiAgentProviderRegistry {
+  const registry = new AiAgentProviderRegistry();
+  registry.register('stub', new StubAiAgentProvider());
+
+  const apiKey = env.SUPERVISOR_AI_API_KEY || env.OPENAI_API_KEY;
+  if (env.SUPERVISOR_AI_BASE_URL || apiKey) {
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: env.SUPERVISOR_AI_BASE_URL || 'https://api.openai.com/v1',
+      model: env.SUPERVISOR_AI_MODEL || 'gpt-4o-mini',
+      apiKey,
+    });
+    registry.register('openai', provider);
+    registry.setDefault(provider);
+  }
+
+  return registry;
+}
@@ -0,0 +1,219 @@
+/**
+ * Human approvals
+ * Approval requests for phases with `requireHumanApproval`, decided by a
+ * human through MCP elicitation or the HTTP transport and kept in the
+ * workspace's .mcp directory
+ */
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { randomUUID } from 'node:crypto';
+import type { ILogger } from '../interfaces/ILogger';
+import type { IAuditLogService } from '../interfaces/IAuditLogService';
+import type {
+  ApprovalQuery,
+  ApprovalRequest,
+  ApprovalRequestOptions,
+  IApprovalService,
+} from '../interfaces/IApprovalService';
+import {
+  ApprovalError,
+  ApprovalNotFoundError,
+} from '../errors/RuleEngineErrors';
+
+// Where approvals are kept, relative to the workspace root
+export const APPROVALS_FILE = '.mcp/approvals.json';
+// Requests and unused approvals expire after a day unless told otherwise
+export const DEFAULT_APPROVAL_TTL = 24 * 60 * 60 * 1000;
+
+export class ApprovalService implements IApprovalService {
+  private approvals: Map<string, ApprovalRequest> | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly auditLog: IAuditLogService,
+    private readonly logger: ILogger
+  ) {}
+
+  async requestApproval(
+    phase: string,
+    options: ApprovalRequestOptions = {}
+  ): Promise<ApprovalRequest> {
+    const approvals = await this.load();
+    const now = Date.now();
+    const expiresAt = new Date(
+      now + (options.ttl ?? DEFAULT_APPROVAL_TTL)
+    ).toISOString();
+
+    // A human may be reviewing the open request, so it is never changed
+    // under them: it is superseded and has to be decided anew
+    const open = [...approvals.values()].find(
+      approval => approval.phase === phase && approval.status === 'pending'
+    );
+    if (open) {
+      open.status = 'expired';
+      this.record(open, 'system', 'superseded');
+    }
+
+    const approval: ApprovalRequest = {
+      id: randomUUID(),
+      phase,
+      ...(options.from && { from: options.from }),
+      status: 'pending',
+      requestedBy: options.requestedBy ?? 'system',
+      requestedAt: new Date(now).toISOString(),
+      expiresAt,
+      ...(options.phaseResult && { phaseResult: options.phaseResult }),
+    };
+    approvals.set(approval.id, approval);
+    await this.save();
+    this.record(approval, approval.requestedBy, 'requested');
+    return approval;
+  }
+
+  async getApproval(id: string): Promise<ApprovalRequest> {
+    const approval = (await this.load()).get(id);
+    if (!approval) throw new ApprovalNotFoundError(id);
+    return approval;
+  }
+
+  async listApprovals(query: ApprovalQuery = {}): Promise<ApprovalRequest[]> {
+    return [...(await this.load()).values()]
+      .filter(
+        approval =>
+          (!query.status || approval.status === query.status) &&
+          (!query.phase || approval.phase === query.phase)
+      )
+      .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+  }
+
+  approve(
+    id: string,
+    approver: string,
+    comment?: string
+  ): Promise<ApprovalRequest> {
+    return this.decide(id, 'approved', approver, comment);
+  }
+
+  reject(
+    id: string,
+    approver: string,
+    comment?: string
+  ): Promise<ApprovalRequest> {
+    return this.decide(id, 'rejected', approver, comment);
+  }
+
+  async findApproval(
+    phase: string,
+    from?: string
+  ): Promise<ApprovalRequest | null> {
+    const approvals = await this.listApprovals({ phase, status: 'approved' });
+    return (
+      approvals.find(
+        approval =>
+          !approval.consumedAt && (from === undefined || approval.from === from)
+      ) ?? null
+    );
+  }
+
+  async consume(id: string): Promise<ApprovalRequest> {
+    const approval = await this.getApproval(id);
+    if (approval.status !== 'approved' || approval.consumedAt) {
+      throw new ApprovalError(
+        `Approval request '${id}' is not an unused approval`,
+        id,
+        { status: approval.status }
+      );
+    }
+    approval.consumedAt = new Date().toISOString();
+    await this.save();
+    return approval;
+  }
+
+  private async decide(
+    id: string,
+    status: 'approved' | 'rejected',
+    approver: string,
+    comment?: string
+  ): Promise<ApprovalRequest> {
+    if (!approver.trim()) {
+      throw new ApprovalError('An approver identity is required', id);
+    }
+    const approval = await this.getApproval(id);
+    if (approval.status !== 'pending') {
+      throw new ApprovalError(
+        `Approval request '${id}' is already ${approval.status}`,
+        id,
+        { status: approval.status }
+      );
+    }
+
+    approval.status = status;
+    approval.decision = {
+      approver,
+      ...(comment && { comment }),
+      decidedAt: new Date().toISOString(),
+    };
+    await this.save();
+    this.record(approval, approver, status, comment);
+    return approval;
+  }
+
+  /**
+   * Read the approvals file once, expiring overdue requests on every access
+   */
+  private async load(): Promise<Map<string, ApprovalRequest>> {
+    if (!this.approvals) {
+      let stored: ApprovalRequest[] = [];
+      try {
+        stored = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      }
+      this.approvals = new Map(stored.map(approval => [approval.id, approval]));
+    }
+
+    const now = new Date().toISOString();
+    const expired = [...this.approvals.values()].filter(
+      approval =>
+        (approval.status === 'pending' ||
+          (approval.status === 'approved' && !approval.consumedAt)) &&
+        approval.expiresAt <= now
+    );
+    for (const approval of expired) {
+      approval.status = 'expired';
+      this.record(approval, 'system', 'expired');
+    }
+    if (expired.length > 0) await this.save();
+
+    return this.approvals;
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.writeFile(
+      this.filePath,
+      JSON.stringify([...(this.approvals?.values() ?? [])], null, 2),
+      'utf-8'
+    );
+  }
+
+  private record(
+    approval: ApprovalRequest,
+    actor: string,
+    event: string,
+    comment?: string
+  ): void {
+    const message = `Approval of phase '${approval.phase}' ${event}${comment ? `: ${comment}` : ''}`;
+    this.auditLog.log({
+      timestamp: Date.now(),
+      actor,
+      action: `approval:${event}`,
+      context: { approvalId: approval.id, phase: approval.phase },
+      result: { status: approval.status },
+      deviation: event === 'rejected',
+      message,
+    });
+    this.logger.info(message);
+  }
+}
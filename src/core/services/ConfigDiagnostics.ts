@@ -0,0 +1,442 @@
+/**
+ * Configuration diagnostics
+ * Turns schema issues and broken cross-references into readable messages
+ * that point at the offending line of the config file
+ */
+
+import {
+  SupervisorConfigSchema,
+  type SupervisorConfigType,
+} from '../schemas/RuleEngineSchemas';
+import { findDependencyCycle } from './RuleDependencyGraph';
+import { isWaiverExpired } from './RuleWaivers';
+import { findClosestMatch } from '../../utils/utils';
+import {
+  formatCodeFrame,
+  locateJsonPath,
+  type JsonPath,
+} from '../../utils/jsonLocation';
+
+export type ConfigDiagnosticSeverity = 'error' | 'warning';
+
+export type ConfigDiagnosticCode =
+  | 'load-error'
+  | 'parse-error'
+  | 'schema'
+  | 'id-mismatch'
+  | 'unknown-reference'
+  | 'unknown-plugin'
+  | 'missing-prefix'
+  | 'dependency-cycle'
+  | 'unused-rule'
+  | 'expired-waiver';
+
+export interface ConfigDiagnostic {
+  severity: ConfigDiagnosticSeverity;
+  code: ConfigDiagnosticCode;
+  message: string;
+  // Location in the merged configuration
+  path: JsonPath;
+  // Replacement value for typos and missing prefixes
+  suggestion?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  codeFrame?: string;
+}
+
+export interface ConfigDiagnosticsReport {
+  valid: boolean;
+  diagnostics: ConfigDiagnostic[];
+}
+
+export interface LintConfigOptions {
+  // Names of the loaded plugins; plugin rules are only checked when given
+  pluginNames?: Iterable<string>;
+}
+
+// JSON source of a config file, most specific first when several are given
+export interface ConfigSource {
+  file: string;
+  content: string;
+}
+
+const formatPath = (path: JsonPath): string =>
+  path.length > 0 ? path.join('.') : '(root)';
+
+function unknownReference(
+  path: JsonPath,
+  message: string,
+  value: string,
+  candidates: Iterable<string>,
+  toSuggestion: (match: string) => string = match => match
+): ConfigDiagnostic {
+  const match = findClosestMatch(value, candidates);
+  const suggestion = match === null ? undefined : toSuggestion(match);
+  return {
+    severity: 'error',
+    code: 'unknown-reference',
+    message: suggestion ? `${message}. Did you mean '${suggestion}'?` : message,
+    path,
+    suggestion,
+  };
+}
+
+/**
+ * Check one `enforce` entry; `owner` names what enforces it in messages
+ */
+function checkEnforceEntry(
+  config: SupervisorConfigType,
+  owner: string,
+  entry: string,
+  path: JsonPath,
+  referenced: Set<string>
+): ConfigDiagnostic | null {
+  const ruleIds = Object.keys(config.rules);
+  const groupNames = Object.keys(config.ruleGroups);
+
+  if (entry.startsWith('rule:')) {
+    const ruleId = entry.slice('rule:'.length);
+    referenced.add(ruleId);
+    if (config.rules[ruleId]) return null;
+    return unknownReference(
+      path,
+      `${owner} enforces unknown rule '${ruleId}'`,
+      ruleId,
+      ruleIds,
+      match => `rule:${match}`
+    );
+  }
+
+  if (entry.startsWith('group:')) {
+    const groupName = entry.slice('group:'.length);
+    if (config.ruleGroups[groupName]) return null;
+    return unknownReference(
+      path,
+      `${owner} enforces unknown rule group '${groupName}'`,
+      groupName,
+      groupNames,
+      match => `group:${match}`
+    );
+  }
+
+  if (config.rules[entry] || config.ruleGroups[entry]) {
+    const suggestion = config.rules[entry] ? `rule:${entry}` : `group:${entry}`;
+    referenced.add(entry);
+    return {
+      severity: 'warning',
+      code: 'missing-prefix',
+      message: `${owner} entry '${entry}' is ignored because it has no 'rule:' or 'group:' prefix. Did you mean '${suggestion}'?`,
+      path,
+      suggestion,
+    };
+  }
+
+  return unknownReference(
+    path,
+    `${owner} enforces unknown entry '${entry}'`,
+    entry,
+    [
+      ...ruleIds.map(id => `rule:${id}`),
+      ...groupNames.map(name => `group:${name}`),
+    ]
+  );
+}
+
+function collectPhaseDiagnostics(
+  config: SupervisorConfigType,
+  referenced: Set<string>
+): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+
+  for (const [phase, phaseConfig] of Object.entries(config.phases)) {
+    (phaseConfig.enforce ?? []).forEach((entry, index) => {
+      const diagnostic = checkEnforceEntry(
+        config,
+        `Phase '${phase}'`,
+        entry,
+        ['phases', phase, 'enforce', index],
+        referenced
+      );
+      if (diagnostic) diagnostics.push(diagnostic);
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Every phase named by the workflow must be configured, and its entry and
+ * exit rules must exist
+ */
+function collectWorkflowDiagnostics(
+  config: SupervisorConfigType,
+  referenced: Set<string>
+): ConfigDiagnostic[] {
+  const { workflow } = config;
+  if (!workflow) return [];
+  const diagnostics: ConfigDiagnostic[] = [];
+  const phases = Object.keys(config.phases);
+
+  const checkPhase = (path: JsonPath, message: string, phase: string): void => {
+    if (config.phases[phase]) return;
+    diagnostics.push(unknownReference(path, message, phase, phases));
+  };
+
+  checkPhase(
+    ['workflow', 'initial'],
+    `Workflow starts in unknown phase '${workflow.initial}'`,
+    workflow.initial
+  );
+
+  for (const [phase, step] of Object.entries(workflow.phases)) {
+    checkPhase(
+      ['workflow', 'phases', phase],
+      `Workflow defines transitions for unknown phase '${phase}'`,
+      phase
+    );
+    step.next.forEach((target, index) =>
+      checkPhase(
+        ['workflow', 'phases', phase, 'next', index],
+        `Workflow phase '${phase}' leads to unknown phase '${target}'`,
+        target
+      )
+    );
+    for (const hook of ['onEnter', 'onExit'] as const) {
+      (step[hook] ?? []).forEach((entry, index) => {
+        const diagnostic = checkEnforceEntry(
+          config,
+          `Workflow phase '${phase}' ${hook}`,
+          entry,
+          ['workflow', 'phases', phase, hook, index],
+          referenced
+        );
+        if (diagnostic) diagnostics.push(diagnostic);
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+function collectRuleReferenceDiagnostics(
+  config: SupervisorConfigType,
+  referenced: Set<string>,
+  options: LintConfigOptions
+): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+  const ruleIds = Object.keys(config.rules);
+  const pluginNames = options.pluginNames && [...options.pluginNames];
+
+  for (const [groupName, members] of Object.entries(config.ruleGroups)) {
+    members.forEach((ruleId, index) => {
+      referenced.add(ruleId);
+      if (!config.rules[ruleId]) {
+        diagnostics.push(
+          unknownReference(
+            ['ruleGroups', groupName, index],
+            `Rule group '${groupName}' references unknown rule '${ruleId}'`,
+            ruleId,
+            ruleIds
+          )
+        );
+      }
+    });
+  }
+
+  for (const [ruleId, rule] of Object.entries(config.rules)) {
+    if (rule.id !== ruleId) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'id-mismatch',
+        message: `Rule '${ruleId}' has id '${rule.id}'; a rule's id must match its key`,
+        path: ['rules', ruleId, 'id'],
+        suggestion: ruleId,
+      });
+    }
+
+    if (
+      rule.type === 'plugin' &&
+      pluginNames &&
+      !pluginNames.includes(rule.plugin)
+    ) {
+      const match = findClosestMatch(rule.plugin, pluginNames);
+      diagnostics.push({
+        severity: 'error',
+        code: 'unknown-plugin',
+        message: `Rule '${ruleId}' uses plugin '${rule.plugin}', which is not loaded${match ? `. Did you mean '${match}'?` : ''}`,
+        path: ['rules', ruleId, 'plugin'],
+        suggestion: match ?? undefined,
+      });
+    }
+
+    (rule.dependsOn ?? []).forEach((dependency, index) => {
+      if (!config.rules[dependency]) {
+        diagnostics.push(
+          unknownReference(
+            ['rules', ruleId, 'dependsOn', index],
+            `Rule '${ruleId}' depends on unknown rule '${dependency}'`,
+            dependency,
+            ruleIds
+          )
+        );
+      }
+    });
+
+    if (rule.type !== 'composite') continue;
+    rule.rules.forEach((child, index) => {
+      referenced.add(child);
+      if (!config.rules[child]) {
+        diagnostics.push(
+          unknownReference(
+            ['rules', ruleId, 'rules', index],
+            `Composite rule '${ruleId}' combines unknown rule '${child}'`,
+            child,
+            ruleIds
+          )
+        );
+      }
+    });
+  }
+
+  const cycle = findDependencyCycle(config.rules);
+  if (cycle) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'dependency-cycle',
+      message: `Rule dependency cycle detected: ${cycle.join(' -> ')}`,
+      path: ['rules', cycle[0]!],
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Every waiver must name an existing rule; expired waivers no longer
+ * apply and can be removed
+ */
+function collectWaiverDiagnostics(
+  config: SupervisorConfigType
+): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+  const ruleIds = Object.keys(config.rules);
+  const now = new Date();
+
+  for (const [waiverId, waiver] of Object.entries(config.waivers ?? {})) {
+    if (!config.rules[waiver.rule]) {
+      diagnostics.push(
+        unknownReference(
+          ['waivers', waiverId, 'rule'],
+          `Waiver '${waiverId}' waives unknown rule '${waiver.rule}'`,
+          waiver.rule,
+          ruleIds
+        )
+      );
+    }
+    if (isWaiverExpired(waiver, now)) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'expired-waiver',
+        message: `Waiver '${waiverId}' for rule '${waiver.rule}' expired on ${waiver.expires} and no longer applies`,
+        path: ['waivers', waiverId, 'expires'],
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check the referential integrity of a schema-valid configuration: every
+ * `enforce` entry, workflow phase, rule group member, dependency, composite
+ * child, waived rule and plugin must exist, and each rule's id must match
+ * its key. Rules nothing references and expired waivers are reported as
+ * warnings.
+ */
+export function lintConfig(
+  config: SupervisorConfigType,
+  options: LintConfigOptions = {}
+): ConfigDiagnostic[] {
+  const referenced = new Set<string>();
+  const diagnostics = [
+    ...collectPhaseDiagnostics(config, referenced),
+    ...collectWorkflowDiagnostics(config, referenced),
+    ...collectRuleReferenceDiagnostics(config, referenced, options),
+    ...collectWaiverDiagnostics(config),
+  ];
+
+  for (const ruleId of Object.keys(config.rules)) {
+    if (!referenced.has(ruleId)) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'unused-rule',
+        message: `Rule '${ruleId}' is not referenced by any phase, rule group or composite rule`,
+        path: ['rules', ruleId],
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Diagnose a raw (merged) configuration. Schema issues are reported first;
+ * the configuration is only linted once it has a valid shape.
+ */
+export function collectConfigDiagnostics(
+  rawConfig: unknown,
+  options: LintConfigOptions = {}
+): ConfigDiagnostic[] {
+  const result = SupervisorConfigSchema.safeParse(rawConfig);
+  if (!result.success) {
+    return result.error.errors.map(issue => ({
+      severity: 'error' as const,
+      code: 'schema' as const,
+      message: `${formatPath(issue.path)}: ${issue.message}`,
+      path: issue.path,
+    }));
+  }
+  return lintConfig(result.data, options);
+}
+
+/**
+ * Attach file, line, column and a code frame to each diagnostic. The
+ * source that contains the longest part of the diagnostic path wins;
+ * ties go to the most specific source.
+ */
+export function locateConfigDiagnostics(
+  diagnostics: ConfigDiagnostic[],
+  sources: ConfigSource[]
+): ConfigDiagnostic[] {
+  return diagnostics.map(diagnostic => {
+    let best: (ConfigSource & ReturnType<typeof locateJsonPath>) | null = null;
+    for (const source of sources) {
+      const location = locateJsonPath(source.content, diagnostic.path);
+      if (!best || location.depth > best.depth) {
+        best = { ...source, ...location };
+      }
+    }
+    if (!best) return diagnostic;
+
+    return {
+      ...diagnostic,
+      file: best.file,
+      line: best.line,
+      column: best.column,
+      codeFrame: formatCodeFrame(best.content, best),
+    };
+  });
+}
+
+/**
+ * Build a report; the configuration is valid when nothing is an error
+ */
+export function toDiagnosticsReport(
+  diagnostics: ConfigDiagnostic[]
+): ConfigDiagnosticsReport {
+  return {
+    valid: diagnostics.every(diagnostic => diagnostic.severity !== 'error'),
+    diagnostics,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Configuration `extends` resolution
+ * Expands a config file into the ordered layers it is built from and
+ * merges them, recording which files contributed each rule, phase and group
+ */
+
+import { existsSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, isAbsolute, resolve } from 'path';
+import { ConfigurationError } from '../errors/RuleEngineErrors';
+import { deepMerge, isPlainObject } from '../../utils/utils';
+import { CONFIG_FILE_NAMES } from './ConfigFormats';
+
+export type ConfigFileReader = (path: string) => Promise<unknown>;
+
+export interface ConfigLayer {
+  source: string;
+  config: Record<string, unknown>;
+}
+
+/**
+ * Files that defined or modified each entry, from the base to the most
+ * specific; the last source is the one that had the final say
+ */
+export interface ConfigProvenance {
+  rules: Record<string, string[]>;
+  phases: Record<string, string[]>;
+  ruleGroups: Record<string, string[]>;
+}
+
+/**
+ * Resolve an `extends` entry. Relative and absolute paths are resolved
+ * against the extending file; anything else is treated as a package name
+ * and looked up in node_modules, either through the package entry point
+ * or a config file at the package root.
+ */
+export function resolveExtendsSpecifier(
+  specifier: string,
+  fromFile: string
+): string {
+  if (specifier.startsWith('.') || isAbsolute(specifier)) {
+    const resolved = resolve(dirname(fromFile), specifier);
+    if (!existsSync(resolved)) {
+      throw new ConfigurationError(
+        `Extended configuration not found: ${specifier} (extended from ${fromFile})`,
+        { specifier, from: fromFile }
+      );
+    }
+    return resolved;
+  }
+
+  const requireFrom = createRequire(fromFile);
+  const candidates = [
+    specifier,
+    ...CONFIG_FILE_NAMES.map(file => `${specifier}/${file}`),
+  ];
+  for (const candidate of candidates) {
+    try {
+      return requireFrom.resolve(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new ConfigurationError(
+    `Cannot resolve extended configuration package '${specifier}' (extended from ${fromFile})`,
+    { specifier, from: fromFile }
+  );
+}
+
+function readExtends(
+  config: Record<string, unknown>,
+  source: string
+): string[] {
+  const value = config.extends;
+  if (value === undefined) return [];
+  const specifiers = Array.isArray(value) ? value : [value];
+  if (!specifiers.every(s => typeof s === 'string' && s.length > 0)) {
+    throw new ConfigurationError(
+      `Invalid extends in ${source}: expected a path or package name, or a list of them`,
+      { source }
+    );
+  }
+  return specifiers as string[];
+}
+
+/**
+ * Expand a config file into its layers, bases first. Each base is expanded
+ * before the next one in the `extends` list; a file reached through more
+ * than one path is only applied the first time.
+ */
+export async function resolveConfigLayers(
+  configPath: string,
+  readConfig: ConfigFileReader
+): Promise<ConfigLayer[]> {
+  const layers: ConfigLayer[] = [];
+  const included = new Set<string>();
+
+  const visit = async (source: string, chain: string[]): Promise<void> => {
+    if (chain.includes(source)) {
+      throw new ConfigurationError(
+        `Configuration extends cycle detected: ${[...chain, source].join(' -> ')}`,
+        { cycle: [...chain, source] }
+      );
+    }
+    if (included.has(source)) return;
+
+    const config = await readConfig(source);
+    if (!isPlainObject(config)) {
+      throw new ConfigurationError(
+        `Configuration must be an object: ${source}`,
+        { source }
+      );
+    }
+
+    for (const specifier of readExtends(config, source)) {
+      await visit(resolveExtendsSpecifier(specifier, source), [
+        ...chain,
+        source,
+      ]);
+    }
+
+    const own = { ...config };
+    delete own.extends;
+    included.add(source);
+    layers.push({ source, config: own });
+  };
+
+  await visit(configPath, []);
+  return layers;
+}
+
+/**
+ * Merge layers in order. Rules and phases merge per id, so a layer can
+ * tighten a single field; arrays such as `enforce`, rule groups and
+ * plugin lists replace the inherited value.
+ */
+export function mergeConfigLayers(layers: ConfigLayer[]): {
+  config: Record<string, unknown>;
+  provenance: ConfigProvenance;
+} {
+  const provenance: ConfigProvenance = {
+    rules: {},
+    phases: {},
+    ruleGroups: {},
+  };
+  let config: Record<string, unknown> = {};
+
+  for (const layer of layers) {
+    config = deepMerge(config, layer.config);
+    for (const section of ['rules', 'phases', 'ruleGroups'] as const) {
+      const entries = layer.config[section];
+      if (!isPlainObject(entries)) continue;
+      for (const id of Object.keys(entries)) {
+        (provenance[section][id] ??= []).push(layer.source);
+      }
+    }
+  }
+
+  return { config, provenance };
+}
@@ -0,0 +1,138 @@
+/**
+ * Configuration file formats
+ * Reads JSON (with comments), YAML and TypeScript/ES module config files
+ * into plain values; validation happens afterwards in the ConfigurationManager
+ */
+
+import { readFileSync, statSync } from 'fs';
+import { extname } from 'path';
+import { pathToFileURL } from 'url';
+import JSON5 from 'json5';
+import yaml from 'js-yaml';
+import { ConfigurationError } from '../errors/RuleEngineErrors';
+import type { SourceLocation } from '../../utils/jsonLocation';
+
+export type ConfigFormat = 'json' | 'yaml' | 'module';
+
+// Config file names looked up in a workspace or package root, in priority order
+export const CONFIG_FILE_NAMES = [
+  '.supervisorrc.json',
+  '.supervisorrc.jsonc',
+  '.supervisorrc',
+  '.supervisorrc.yaml',
+  '.supervisorrc.yml',
+  'supervisor.config.ts',
+  'supervisor.config.mjs',
+  'supervisor.config.json',
+];
+
+const FORMATS_BY_EXTENSION: Record<string, ConfigFormat> = {
+  '.json': 'json',
+  '.jsonc': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.ts': 'module',
+  '.mts': 'module',
+  '.js': 'module',
+  '.mjs': 'module',
+};
+
+/**
+ * Detect the format of a config file from its extension. Files without a
+ * known extension (such as `.supervisorrc`) are JSON when their content
+ * starts with an object or a comment, and YAML otherwise.
+ */
+export function detectConfigFormat(
+  path: string,
+  content?: string
+): ConfigFormat {
+  return (
+    FORMATS_BY_EXTENSION[extname(path).toLowerCase()] ??
+    detectContentFormat(content ?? readFileSync(path, 'utf-8'))
+  );
+}
+
+function detectContentFormat(content: string): 'json' | 'yaml' {
+  return /^(\{|\/\/|\/\*)/.test(content.trimStart()) ? 'json' : 'yaml';
+}
+
+/**
+ * Parse JSON or YAML config content. JSON accepts comments and trailing
+ * commas so thresholds can be documented next to their values.
+ */
+export function parseConfigContent(
+  content: string,
+  format: Exclude<ConfigFormat, 'module'>,
+  path: string
+): unknown {
+  try {
+    return format === 'yaml' ? yaml.load(content) : JSON5.parse(content);
+  } catch (parseError: unknown) {
+    const errorMessage =
+      parseError instanceof Error
+        ? parseError.message
+        : 'Unknown parsing error';
+    throw new ConfigurationError(
+      `Invalid ${format === 'yaml' ? 'YAML' : 'JSON'} in configuration file: ${path}`,
+      {
+        parseError: errorMessage,
+        path,
+        location: parseErrorLocation(parseError),
+      }
+    );
+  }
+}
+
+/**
+ * 1-based position reported by the JSON5 or YAML parser, if any
+ */
+function parseErrorLocation(error: any): SourceLocation | undefined {
+  if (typeof error?.lineNumber === 'number') {
+    return { line: error.lineNumber, column: error.columnNumber };
+  }
+  if (typeof error?.mark?.line === 'number') {
+    return { line: error.mark.line + 1, column: error.mark.column + 1 };
+  }
+  return undefined;
+}
+
+/**
+ * Import a TypeScript or ES module config. The default export is used,
+ * falling back to a `config` export; it may also be a promise.
+ */
+async function importConfigModule(path: string): Promise<unknown> {
+  try {
+    // Always evaluate the current file contents. Bun caches modules in
+    // require.cache; Node caches ES modules by URL, so the modification
+    // time in the query gives a changed file a fresh entry.
+    delete require.cache[path];
+    const url = pathToFileURL(path);
+    url.searchParams.set('t', String(statSync(path).mtimeMs));
+    const configModule = await import(url.href);
+    return await (configModule.default ?? configModule.config);
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    throw new ConfigurationError(
+      `Failed to import configuration module: ${path}`,
+      { importError: errorMessage }
+    );
+  }
+}
+
+/**
+ * Read a config file in any supported format
+ */
+export async function readConfigFile(path: string): Promise<unknown> {
+  const format = FORMATS_BY_EXTENSION[extname(path).toLowerCase()];
+  if (format === 'module') {
+    return importConfigModule(path);
+  }
+
+  const content = readFileSync(path, 'utf-8');
+  return parseConfigContent(
+    content,
+    format ?? detectContentFormat(content),
+    path
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * Configuration migrations
+ * Upgrades configs written for older schema versions one version at a
+ * time, and describes the resulting changes for dry runs
+ */
+
+import { ConfigurationError } from '../errors/RuleEngineErrors';
+import { isPlainObject } from '../../utils/utils';
+import type { JsonPath } from '../../utils/jsonLocation';
+
+// Version written by this supervisor; configs without `version` are version 1
+export const CONFIG_VERSION = 2;
+
+export interface ConfigMigration {
+  // Version the migration upgrades from; it produces `from + 1`
+  from: number;
+  description: string;
+  // Receives a copy of the config and may modify it in place
+  migrate(config: Record<string, unknown>): Record<string, unknown>;
+}
+
+export interface ConfigMigrationResult {
+  config: Record<string, unknown>;
+  fromVersion: number;
+  toVersion: number;
+  // Descriptions of the migrations that were applied, in order
+  applied: string[];
+}
+
+export interface ConfigChange {
+  path: JsonPath;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Bare `enforce` entries were never enforced; name what they refer to
+ */
+function prefixEnforceEntries(
+  config: Record<string, unknown>
+): Record<string, unknown> {
+  const rules = isPlainObject(config.rules) ? config.rules : {};
+  const groups = isPlainObject(config.ruleGroups) ? config.ruleGroups : {};
+
+  const prefixPhases = (phases: unknown): void => {
+    if (!isPlainObject(phases)) return;
+    for (const phase of Object.values(phases)) {
+      if (!isPlainObject(phase) || !Array.isArray(phase.enforce)) continue;
+      phase.enforce = phase.enforce.map((entry: unknown) => {
+        if (typeof entry !== 'string' || /^(rule|group):/.test(entry)) {
+          return entry;
+        }
+        if (entry in rules) return `rule:${entry}`;
+        if (entry in groups) return `group:${entry}`;
+        return entry;
+      });
+    }
+  };
+
+  prefixPhases(config.phases);
+  if (isPlainObject(config.environments)) {
+    for (const overlay of Object.values(config.environments)) {
+      if (isPlainObject(overlay)) prefixPhases(overlay.phases);
+    }
+  }
+  return config;
+}
+
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    from: 1,
+    description:
+      "Prefix bare phase enforce entries with 'rule:' or 'group:' so they are enforced",
+    migrate: prefixEnforceEntries,
+  },
+];
+
+/**
+ * Version a raw config was written for
+ */
+export function readConfigVersion(config: Record<string, unknown>): number {
+  const version = config.version ?? 1;
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    throw new ConfigurationError(
+      `Invalid configuration version: ${JSON.stringify(version)}`,
+      { version }
+    );
+  }
+  return version;
+}
+
+/**
+ * Upgrade a raw config to `targetVersion`, applying each migration step in
+ * turn. The input is left untouched. Configs newer than the target are
+ * rejected rather than guessed at.
+ */
+export function migrateConfig(
+  config: Record<string, unknown>,
+  migrations: ConfigMigration[] = CONFIG_MIGRATIONS,
+  targetVersion: number = CONFIG_VERSION
+): ConfigMigrationResult {
+  const fromVersion = readConfigVersion(config);
+  if (fromVersion > targetVersion) {
+    throw new ConfigurationError(
+      `Configuration version ${fromVersion} is newer than the supported version ${targetVersion}; upgrade the supervisor`,
+      { version: fromVersion, supportedVersion: targetVersion }
+    );
+  }
+  if (fromVersion === targetVersion) {
+    return { config, fromVersion, toVersion: targetVersion, applied: [] };
+  }
+
+  let migrated = structuredClone(config);
+  const applied: string[] = [];
+  for (let version = fromVersion; version < targetVersion; version++) {
+    const migration = migrations.find(step => step.from === version);
+    if (!migration) {
+      throw new ConfigurationError(
+        `No migration from configuration version ${version}`,
+        { version }
+      );
+    }
+    migrated = migration.migrate(migrated);
+    applied.push(migration.description);
+  }
+
+  // Keep `version` near the top of the file, after `$schema`
+  const { $schema, ...rest } = migrated;
+  delete rest.version;
+  return {
+    config:
+      $schema === undefined
+        ? { version: targetVersion, ...rest }
+        : { $schema, version: targetVersion, ...rest },
+    fromVersion,
+    toVersion: targetVersion,
+    applied,
+  };
+}
+
+/**
+ * List the values that differ between two configs, leaf by leaf
+ */
+export function diffConfigs(
+  before: unknown,
+  after: unknown,
+  path: JsonPath = []
+): ConfigChange[] {
+  const bothObjects = isPlainObject(before) && isPlainObject(after);
+  const bothArrays = Array.isArray(before) && Array.isArray(after);
+
+  if (bothObjects || bothArrays) {
+    const keys = new Set([
+      ...Object.keys(before as object),
+      ...Object.keys(after as object),
+    ]);
+    return [...keys].flatMap(key =>
+      diffConfigs(
+        (before as Record<string, unknown>)[key],
+        (after as Record<string, unknown>)[key],
+        [...path, bothArrays ? Number(key) : key]
+      )
+    );
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ path, before, after }];
+}
+
+/**
+ * Render changes one per line: `+` added, `-` removed, `~` changed
+ */
+export function formatConfigDiff(changes: ConfigChange[]): string {
+  return changes
+    .map(({ path, before, after }) => {
+      const at = path.join('.');
+      if (before === undefined) return `+ ${at}: ${JSON.stringify(after)}`;
+      if (after === undefined) return `- ${at}: ${JSON.stringify(before)}`;
+      return `~ ${at}: ${JSON.stringify(before)} -> ${JSON.stringify(after)}`;
+    })
+    .join('\n');
+}
@@ -4,29 +4,105 @@
  * Following SOLID principles with single responsibility for configuration management
  */
 
-import { readFileSync, writeFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import {
+  copyFileSync,
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  watch,
+  type FSWatcher,
+} from 'fs';
+import { dirname, join, resolve } from 'path';
 import z from 'zod';
 import {
   SupervisorConfigSchema,
+  type SupervisorConfigInputType,
   type SupervisorConfigType,
 } from '../schemas/RuleEngineSchemas';
+import {
+  CONFIG_SCHEMA_PATH,
+  writeConfigJsonSchema,
+} from '../schemas/ConfigJsonSchema';
 import {
   ConfigurationError,
   ConfigurationNotLoadedError,
 } from '../errors/RuleEngineErrors';
 import type { ILogger } from '../interfaces/ILogger';
 import { defaultConfig } from '../../config/defaultConfig';
+import {
+  mergeConfigLayers,
+  resolveConfigLayers,
+  type ConfigLayer,
+  type ConfigProvenance,
+} from './ConfigExtends';
+import {
+  collectConfigDiagnostics,
+  lintConfig,
+  locateConfigDiagnostics,
+  toDiagnosticsReport,
+  type ConfigDiagnosticsReport,
+} from './ConfigDiagnostics';
+import {
+  CONFIG_FILE_NAMES,
+  detectConfigFormat,
+  readConfigFile,
+} from './ConfigFormats';
+import {
+  CONFIG_VERSION,
+  diffConfigs,
+  formatConfigDiff,
+  migrateConfig,
+  type ConfigChange,
+} from './ConfigMigrations';
 import { injectable, inject } from 'inversify';
 import { TYPES } from '../../config/types';
+import { deepMerge, isPlainObject } from '../../utils/utils';
+
+// A config file merged with the files it extends, before validation
+interface LayeredConfig {
+  sourceConfig: unknown;
+  layers: ConfigLayer[];
+  parsedConfig: Record<string, unknown>;
+  provenance: ConfigProvenance;
+}
+
+export type ConfigChangeListener = (config: SupervisorConfigType) => void;
+
+export interface ConfigMigrationReport {
+  file: string;
+  fromVersion: number;
+  toVersion: number;
+  // Migration steps applied, in order
+  applied: string[];
+  changes: ConfigChange[];
+  // Human readable list of the changes
+  diff: string;
+  // Whether the file was rewritten; false for dry runs and non-JSON files
+  written: boolean;
+  backupPath?: string;
+}
 
 export interface IConfigurationManager {
   loadConfig(configPath?: string): Promise<SupervisorConfigType>;
   getConfig(): SupervisorConfigType;
+  setEnvironment?(environment?: string): void;
+  getEnvironment?(): string | null;
+  getProvenance?(): ConfigProvenance | null;
+  diagnoseConfig?(configPath?: string): Promise<ConfigDiagnosticsReport>;
+  migrateConfigFile?(
+    configPath?: string,
+    options?: { dryRun?: boolean }
+  ): Promise<ConfigMigrationReport>;
+  watch?(): void;
+  unwatch?(): void;
+  onConfigChange?(listener: ConfigChangeListener): () => void;
   isConfigLoaded(): boolean;
   validateConfig(config: unknown): SupervisorConfigType;
   getDefaultConfigPath(): string;
-  createDefaultConfig(path?: string): Promise<string>;
+  createDefaultConfig(
+    path?: string,
+    config?: SupervisorConfigInputType
+  ): Promise<string>;
 }
 
 /**
@@ -35,10 +111,26 @@ export interface IConfigurationManager {
 @injectable()
 export class ConfigurationManager implements IConfigurationManager {
   private config: SupervisorConfigType | null = null;
+  // Config as written on disk, before any environment overlay
+  private baseConfig: SupervisorConfigType | null = null;
+  private environment?: string;
+  private appliedEnvironment: string | null = null;
+  // Contents of the loaded file itself, before `extends` are merged in
+  private sourceConfig: unknown = null;
+  private provenance: ConfigProvenance | null = null;
+  private configPath: string | null = null;
+  // Loaded file and the files it extends
+  private configFiles: string[] = [];
+
+  private watching = false;
+  private readonly watchers = new Map<string, FSWatcher>();
+  private readonly listeners = new Set<ConfigChangeListener>();
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null;
+  private reloadQueue: Promise<unknown> = Promise.resolve();
+  private readonly reloadDebounceMs = 100;
 
   private readonly defaultConfigPaths = [
-    '.supervisorrc.json',
-    'supervisor.config.json',
+    ...CONFIG_FILE_NAMES,
     '.config/supervisor.json',
   ];
 
@@ -67,26 +159,46 @@ export class ConfigurationManager implements IConfigurationManager {
 
       this.logger.info(`Loading configuration from: ${resolvedPath}`);
 
-      const configContent = readFileSync(resolvedPath, 'utf-8');
-      let parsedConfig: unknown;
+      const sourcePath = resolve(resolvedPath);
+      // Only rewrite the file when the migration changes more than the
+      // version; otherwise it keeps loading as is
+      const preview = await this.migrateConfigFile(sourcePath, {
+        dryRun: true,
+      });
+      if (preview.changes.some(change => change.path[0] !== 'version')) {
+        await this.migrateConfigFile(sourcePath);
+      }
+      const { sourceConfig, layers, parsedConfig, provenance } =
+        await this.readLayeredConfig(sourcePath);
+
+      const baseConfig = this.validateConfig(parsedConfig);
+      const environment = this.selectEnvironment(baseConfig);
+      const config = environment
+        ? this.applyEnvironment(parsedConfig, environment)
+        : this.withoutEnvironments(baseConfig);
 
-      try {
-        parsedConfig = JSON.parse(configContent);
-      } catch (parseError: unknown) {
-        const errorMessage =
-          parseError instanceof Error
-            ? parseError.message
-            : 'Unknown parsing error';
-        throw new ConfigurationError(
-          `Invalid JSON in configuration file: ${resolvedPath}`,
-          { parseError: errorMessage }
-        );
+      // Swap in the new state only once everything validated
+      this.config = config;
+      this.baseConfig = baseConfig;
+      this.appliedEnvironment = environment;
+      this.sourceConfig = sourceConfig;
+      this.provenance = provenance;
+      this.configPath = sourcePath;
+      this.configFiles = layers.map(layer => layer.source);
+      if (this.watching) this.syncWatchers();
+
+      for (const diagnostic of lintConfig(config)) {
+        this.logger.warn(`Configuration warning: ${diagnostic.message}`, {
+          path: diagnostic.path.join('.'),
+        });
       }
 
-      this.config = this.validateConfig(parsedConfig);
-      this.logger.info('Configuration loaded and validated successfully');
+      this.logger.info('Configuration loaded and validated successfully', {
+        environment,
+        layers: layers.map(layer => layer.source),
+      });
 
-      return this.config;
+      return config;
     } catch (error: unknown) {
       if (error instanceof ConfigurationError) {
         throw error;
@@ -111,6 +223,199 @@ export class ConfigurationManager implements IConfigurationManager {
     return this.config;
   }
 
+  /**
+   * Select the environment overlay for subsequent loads.
+   * Takes precedence over SUPERVISOR_ENV and NODE_ENV.
+   */
+  setEnvironment(environment?: string): void {
+    this.environment = environment;
+  }
+
+  /**
+   * Name of the environment overlay applied to the current config, if any
+   */
+  getEnvironment(): string | null {
+    return this.appliedEnvironment;
+  }
+
+  /**
+   * Files each rule, phase and rule group of the current config came from
+   */
+  getProvenance(): ConfigProvenance | null {
+    return this.provenance;
+  }
+
+  /**
+   * Diagnose a config file without loading it: schema issues, unknown
+   * references (with suggestions) and unused rules, located in the JSON
+   * source they come from
+   */
+  async diagnoseConfig(configPath?: string): Promise<ConfigDiagnosticsReport> {
+    const sourcePath = resolve(
+      configPath || this.configPath || this.getDefaultConfigPath()
+    );
+
+    let layered: LayeredConfig;
+    try {
+      layered = await this.readLayeredConfig(sourcePath);
+    } catch (error: unknown) {
+      const context =
+        error instanceof ConfigurationError ? error.context : undefined;
+      return toDiagnosticsReport([
+        {
+          severity: 'error',
+          code: context?.location ? 'parse-error' : 'load-error',
+          message: error instanceof Error ? error.message : String(error),
+          path: [],
+          file: context?.path ?? sourcePath,
+          ...context?.location,
+        },
+      ]);
+    }
+
+    const sources = layered.layers
+      .map(layer => layer.source)
+      .reverse()
+      .filter(file => detectConfigFormat(file) === 'json')
+      .map(file => ({ file, content: readFileSync(file, 'utf-8') }));
+    const diagnostics = locateConfigDiagnostics(
+      collectConfigDiagnostics(layered.parsedConfig),
+      sources
+    );
+    return toDiagnosticsReport(
+      diagnostics.map(diagnostic => ({
+        ...diagnostic,
+        file: diagnostic.file ?? sourcePath,
+      }))
+    );
+  }
+
+  /**
+   * Upgrade a config file to the current version. The original is copied
+   * to `<file>.v<version>.bak` before the file is rewritten; a dry run only
+   * reports the changes. Files that are not plain JSON are never rewritten
+   * and are migrated in memory each time they load instead.
+   */
+  async migrateConfigFile(
+    configPath?: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<ConfigMigrationReport> {
+    const file = resolve(
+      configPath || this.configPath || this.getDefaultConfigPath()
+    );
+    const rawConfig = await readConfigFile(file);
+    if (!isPlainObject(rawConfig)) {
+      throw new ConfigurationError(`Configuration must be an object: ${file}`, {
+        source: file,
+      });
+    }
+
+    const { config, fromVersion, toVersion, applied } =
+      migrateConfig(rawConfig);
+    const changes = diffConfigs(rawConfig, config);
+    const report: ConfigMigrationReport = {
+      file,
+      fromVersion,
+      toVersion,
+      applied,
+      changes,
+      diff: formatConfigDiff(changes),
+      written: false,
+    };
+    if (options.dryRun || applied.length === 0) return report;
+
+    if (!this.isPlainJsonFile(file)) {
+      this.logger.warn(
+        `Configuration ${file} uses version ${fromVersion} and is migrated in memory; set "version": ${toVersion} after applying: ${applied.join('; ')}`
+      );
+      return report;
+    }
+
+    const backupPath = `${file}.v${fromVersion}.bak`;
+    copyFileSync(file, backupPath);
+    writeFileSync(file, JSON.stringify(config, null, 2), 'utf-8');
+    this.logger.info(
+      `Configuration migrated from version ${fromVersion} to ${toVersion}: ${file}`,
+      { backupPath, applied }
+    );
+    return { ...report, written: true, backupPath };
+  }
+
+  /**
+   * Watch the loaded config file and the files it extends. Changes are
+   * re-validated and swapped in only when valid; rejected edits are logged
+   * and the previous configuration stays active.
+   */
+  watch(): void {
+    this.watching = true;
+    this.syncWatchers();
+  }
+
+  /**
+   * Stop watching configuration files
+   */
+  unwatch(): void {
+    this.watching = false;
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = null;
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+  }
+
+  /**
+   * Subscribe to configurations swapped in by a reload
+   * @returns Function that removes the listener
+   */
+  onConfigChange(listener: ConfigChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Reload the active config file, keeping the current configuration when
+   * the new one does not load or validate
+   * @returns Whether the new configuration was applied
+   */
+  async reloadConfig(): Promise<boolean> {
+    if (!this.configPath) return false;
+
+    let config: SupervisorConfigType;
+    try {
+      config = await this.loadConfig(this.configPath);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      // Schema issues or lint diagnostics, both with a path and a message
+      const issues: Array<{ path: Array<string | number>; message: string }> =
+        error instanceof ConfigurationError
+          ? (error.context?.zodError ?? error.context?.diagnostics ?? [])
+          : [];
+      this.logger.warn(
+        `Configuration change rejected, keeping the previous configuration: ${errorMessage}`,
+        {
+          configPath: this.configPath,
+          issues: issues.map(issue => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        }
+      );
+      return false;
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(config);
+      } catch (error: unknown) {
+        this.logger.error(
+          'Configuration change listener failed',
+          error instanceof Error ? error : new Error(String(error))
+        );
+      }
+    }
+    return true;
+  }
+
   /**
    * Check if configuration is loaded
    */
@@ -119,12 +424,26 @@ export class ConfigurationManager implements IConfigurationManager {
   }
 
   /**
-   * Validate configuration using Zod schema
+   * Validate configuration using Zod schema, then check that rules, groups
+   * and phases reference each other consistently (see lintConfig)
    */
   validateConfig(config: unknown): SupervisorConfigType {
     try {
-      return SupervisorConfigSchema.parse(config);
+      const validated = SupervisorConfigSchema.parse(config);
+      const errors = lintConfig(validated).filter(
+        diagnostic => diagnostic.severity === 'error'
+      );
+      if (errors.length > 0) {
+        throw new ConfigurationError(
+          `Configuration validation failed: ${errors.map(error => error.message).join('; ')}`,
+          { diagnostics: errors }
+        );
+      }
+      return validated;
     } catch (error: unknown) {
+      if (error instanceof ConfigurationError) {
+        throw error;
+      }
       if (error instanceof z.ZodError) {
         const zodError = error as z.ZodError;
         const formattedErrors = zodError.errors
@@ -159,15 +478,29 @@ export class ConfigurationManager implements IConfigurationManager {
   }
 
   /**
-   * Create a default configuration file
+   * Create a configuration file, the built-in default unless a config is
+   * given. The JSON Schema is written next to it and referenced through
+   * `$schema` for editor completion.
    */
-  async createDefaultConfig(path?: string): Promise<string> {
+  async createDefaultConfig(
+    path?: string,
+    config: SupervisorConfigInputType = defaultConfig
+  ): Promise<string> {
     const configPath =
       path ||
       join(process.cwd(), this.defaultConfigPaths[0] || '.supervisorrc.json');
 
     try {
-      const configJson = JSON.stringify(defaultConfig, null, 2);
+      writeConfigJsonSchema(join(dirname(configPath), CONFIG_SCHEMA_PATH));
+      const configJson = JSON.stringify(
+        {
+          $schema: `./${CONFIG_SCHEMA_PATH}`,
+          version: CONFIG_VERSION,
+          ...config,
+        },
+        null,
+        2
+      );
       writeFileSync(configPath, configJson, 'utf-8');
 
       this.logger.info(`Default configuration created at: ${configPath}`);
@@ -188,10 +521,163 @@ export class ConfigurationManager implements IConfigurationManager {
   async flush(configPath?: string): Promise<void> {
     if (!this.config) return;
     const path = configPath || this.getDefaultConfigPath();
-    writeFileSync(path, JSON.stringify(this.config, null, 2), 'utf-8');
+    if (existsSync(path) && !this.isPlainJsonFile(path)) {
+      // Rewriting YAML, commented JSON or code would lose the author's content
+      this.logger.info(`Configuration not flushed, ${path} is not plain JSON`);
+      return;
+    }
+    // Keep overlays and extended files separate instead of persisting the
+    // merged result
+    const config = this.baseConfig?.extends
+      ? this.sourceConfig
+      : this.appliedEnvironment
+        ? this.baseConfig
+        : { ...this.config, environments: this.baseConfig?.environments };
+    writeFileSync(path, JSON.stringify(config, null, 2), 'utf-8');
     this.logger.info(`Configuration flushed to: ${path}`);
   }
 
+  /**
+   * Read a config file and the files it extends, merged into one raw config
+   */
+  private async readLayeredConfig(sourcePath: string): Promise<LayeredConfig> {
+    // Each file is upgraded on its own, as bases may lag behind
+    const readMigrated = async (path: string): Promise<unknown> => {
+      const rawConfig = await readConfigFile(path);
+      return isPlainObject(rawConfig)
+        ? migrateConfig(rawConfig).config
+        : rawConfig;
+    };
+    const sourceConfig = await readMigrated(sourcePath);
+    const layers = await resolveConfigLayers(sourcePath, async path =>
+      path === sourcePath ? sourceConfig : readMigrated(path)
+    );
+    const { config: mergedConfig, provenance } = mergeConfigLayers(layers);
+    const extendsValue = (sourceConfig as Record<string, unknown>).extends;
+    const parsedConfig =
+      extendsValue === undefined
+        ? mergedConfig
+        : { ...mergedConfig, extends: extendsValue };
+    return { sourceConfig, layers, parsedConfig, provenance };
+  }
+
+  /**
+   * Watch the directories of the config files rather than the files
+   * themselves, so editors that save by replacing the file are noticed
+   */
+  private syncWatchers(): void {
+    const directories = new Set(this.configFiles.map(file => dirname(file)));
+
+    for (const [directory, watcher] of this.watchers) {
+      if (!directories.has(directory)) {
+        watcher.close();
+        this.watchers.delete(directory);
+      }
+    }
+
+    for (const directory of directories) {
+      if (this.watchers.has(directory)) continue;
+      try {
+        const watcher = watch(directory, (_event, filename) => {
+          if (
+            filename &&
+            this.configFiles.includes(join(directory, filename.toString()))
+          ) {
+            this.scheduleReload();
+          }
+        });
+        watcher.on('error', error =>
+          this.logger.error(`Stopped watching ${directory}`, error)
+        );
+        watcher.unref();
+        this.watchers.set(directory, watcher);
+      } catch (error: unknown) {
+        this.logger.warn(`Cannot watch configuration directory ${directory}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Coalesce bursts of file events into one reload; reloads run one at a
+   * time so an older read never replaces a newer one
+   */
+  private scheduleReload(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.reloadQueue = this.reloadQueue.then(() => this.reloadConfig());
+    }, this.reloadDebounceMs);
+    this.reloadTimer.unref?.();
+  }
+
+  private isPlainJsonFile(path: string): boolean {
+    if (detectConfigFormat(path) !== 'json') return false;
+    try {
+      JSON.parse(readFileSync(path, 'utf-8'));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve the overlay to apply: --env, then SUPERVISOR_ENV, then NODE_ENV.
+   * An explicitly requested environment must exist; NODE_ENV only
+   * applies an overlay when one is defined for it.
+   */
+  private selectEnvironment(config: SupervisorConfigType): string | null {
+    const environments = config.environments ?? {};
+    const requested = this.environment || process.env.SUPERVISOR_ENV;
+
+    if (requested) {
+      if (!environments[requested]) {
+        throw new ConfigurationError(
+          `Unknown environment '${requested}'. Available: ${Object.keys(environments).join(', ') || 'none'}`,
+          { environment: requested }
+        );
+      }
+      return requested;
+    }
+
+    const nodeEnv = process.env.NODE_ENV;
+    return nodeEnv && environments[nodeEnv] ? nodeEnv : null;
+  }
+
+  /**
+   * Deep-merge an environment overlay over the raw config and validate the result
+   */
+  private applyEnvironment(
+    rawConfig: unknown,
+    environment: string
+  ): SupervisorConfigType {
+    const { environments, ...base } = rawConfig as Record<string, unknown>;
+    const overlay = (environments as Record<string, unknown>)[environment];
+
+    try {
+      return this.withoutEnvironments(
+        this.validateConfig(deepMerge(base, overlay))
+      );
+    } catch (error: unknown) {
+      if (error instanceof ConfigurationError) {
+        throw new ConfigurationError(
+          `Environment '${environment}': ${error.message}`,
+          { ...error.context, environment }
+        );
+      }
+      throw error;
+    }
+  }
+
+  private withoutEnvironments(
+    config: SupervisorConfigType
+  ): SupervisorConfigType {
+    const effective = { ...config };
+    delete effective.environments;
+    return effective;
+  }
+
   /**
    * Find configuration file in default locations
    */
@@ -7,6 +7,11 @@ import type {
 import { TYPES } from '../../config/types';
 import type { IContextStore } from '../interfaces/IContextStore';
 import type { IRuleEngine } from '../interfaces/IRuleEngine';
+import type { IPhaseTransitionService } from '../interfaces/IPhaseTransitionService';
+import type { IApprovalService } from '../interfaces/IApprovalService';
+import type { IPlanValidator } from '../interfaces/IPlanValidator';
+import type { IAuditLogService } from '../interfaces/IAuditLogService';
+import type { RuleExecutionResult } from '../schemas/RuleEngineSchemas';
 import type { IConfigurationManager } from './ConfigurationManager';
 import type { IPluginManager } from './PluginManager';
 import { IContextPersistence } from '../interfaces/IContextPersistence';
@@ -25,6 +30,10 @@ export class McpWorkspaceSupervisor implements IMcpWorkspaceSupervisor {
    * @param configManager - Configuration manager instance
    * @param pluginManager - Plugin manager instance
    * @param contextStore - Context store instance
+   * @param phaseTransitions - Phase transition service
+   * @param approvals - Approval service
+   * @param planValidator - Plan validator
+   * @param auditLog - Audit log service
    */
   public constructor(
     @inject(TYPES.Logger) private readonly logger: ILogger,
@@ -33,7 +42,12 @@ export class McpWorkspaceSupervisor implements IMcpWorkspaceSupervisor {
     @inject(TYPES.ConfigurationManager)
     private readonly configManager: IConfigurationManager,
     @inject(TYPES.PluginManager) private readonly pluginManager: IPluginManager,
-    @inject(TYPES.ContextStore) private readonly contextStore: IContextStore
+    @inject(TYPES.ContextStore) private readonly contextStore: IContextStore,
+    @inject(TYPES.PhaseTransitionService)
+    private readonly phaseTransitions: IPhaseTransitionService,
+    @inject(TYPES.ApprovalService) private readonly approvals: IApprovalService,
+    @inject(TYPES.PlanValidator) private readonly planValidator: IPlanValidator,
+    @inject(TYPES.AuditLogService) private readonly auditLog: IAuditLogService
   ) {}
 
   /**
@@ -86,20 +100,26 @@ export class McpWorkspaceSupervisor implements IMcpWorkspaceSupervisor {
 
   /**
    * Get the audit log service
-   * Returns a stub if not available on context store.
-   * @returns {object} Audit log service stub
+   * @returns {IAuditLogService} Audit log service
    */
-  public getAuditLogService(): { getHistory: () => unknown[] } {
-    return { getHistory: () => [] };
+  public getAuditLogService(): IAuditLogService {
+    return this.auditLog;
   }
 
   /**
-   * Get recent rule execution results
-   * Returns an empty array if not available.
-   * @returns {unknown[]} Recent rule results
+   * Get recent rule execution results, oldest first, from the audit log
+   * @returns {Array<RuleExecutionResult & { timestamp: number }>} Rule results with the time they were recorded
    */
-  public getRecentRuleResults(): unknown[] {
-    return [];
+  public getRecentRuleResults(): Array<
+    RuleExecutionResult & { timestamp: number }
+  > {
+    return this.auditLog
+      .getHistory()
+      .filter(entry => entry.action.startsWith('executeRule:') && entry.result)
+      .map(entry => ({
+        ...(entry.result as RuleExecutionResult),
+        timestamp: entry.timestamp,
+      }));
   }
 
   /**
@@ -133,4 +153,28 @@ export class McpWorkspaceSupervisor implements IMcpWorkspaceSupervisor {
   public getContextStore(): IContextStore {
     return this.contextStore;
   }
+
+  /**
+   * Get the phase transition service
+   * @returns {IPhaseTransitionService} Phase transition service
+   */
+  public getPhaseTransitionService(): IPhaseTransitionService {
+    return this.phaseTransitions;
+  }
+
+  /**
+   * Get the approval service
+   * @returns {IApprovalService} Approval service
+   */
+  public getApprovalService(): IApprovalService {
+    return this.approvals;
+  }
+
+  /**
+   * Get the plan validator
+   * @returns {IPlanValidator} Plan validator
+   */
+  public getPlanValidator(): IPlanValidator {
+    return this.planValidator;
+  }
 }
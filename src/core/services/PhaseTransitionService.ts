@@ -0,0 +1,293 @@
+/**
+ * Phase transitions
+ * Keeps the workspace's current phase in the context store and only moves
+ * it along the configured workflow once the guarding rules pass
+ */
+
+import { inject, injectable } from 'inversify';
+import { TYPES } from '../../config/types';
+import type { ILogger } from '../interfaces/ILogger';
+import type { IContextStore } from '../interfaces/IContextStore';
+import type {
+  IRuleEngine,
+  RuleExecutionOptions,
+} from '../interfaces/IRuleEngine';
+import type { IAuditLogService } from '../interfaces/IAuditLogService';
+import type { IApprovalService } from '../interfaces/IApprovalService';
+import type {
+  IPhaseTransitionService,
+  PhaseState,
+  PhaseTransitionResult,
+} from '../interfaces/IPhaseTransitionService';
+import type { IConfigurationManager } from './ConfigurationManager';
+import type {
+  RuleExecutionContext,
+  RuleExecutionResult,
+  SupervisorConfigType,
+} from '../schemas/RuleEngineSchemas';
+import {
+  ConfigurationError,
+  PhaseNotFoundError,
+  PhaseTransitionError,
+} from '../errors/RuleEngineErrors';
+
+// Context store namespace of the workflow state
+export const WORKFLOW_NAMESPACE = 'workflow';
+const CURRENT_PHASE_KEY = 'current-phase';
+
+const isHardFailure = (result: RuleExecutionResult): boolean =>
+  !result.passed &&
+  !result.skipped &&
+  result.status !== 'waived' &&
+  result.enforcement === 'hard';
+
+/**
+ * Phases reachable from `from`. Without a `workflow` section a phase may
+ * advance to the next declared phase or return to any earlier one.
+ */
+export function getAllowedTransitions(
+  config: SupervisorConfigType,
+  from: string
+): string[] {
+  if (config.workflow) {
+    return config.workflow.phases[from]?.next ?? [];
+  }
+  const phases = Object.keys(config.phases);
+  const index = phases.indexOf(from);
+  if (index === -1) return [];
+  return [...phases.slice(index + 1, index + 2), ...phases.slice(0, index)];
+}
+
+/**
+ * Whether moving from `from` to `to` reopens earlier work rather than
+ * promoting it. With a `workflow` only a move to a phase fewer `next` steps
+ * away from the initial phase reopens; phases the initial phase cannot
+ * reach are never reopened into. Without one, declaration order decides.
+ */
+export function isReopenTransition(
+  config: SupervisorConfigType,
+  from: string,
+  to: string
+): boolean {
+  if (!config.workflow) {
+    const phases = Object.keys(config.phases);
+    return phases.indexOf(to) < phases.indexOf(from);
+  }
+
+  // Shortest number of transitions from the initial phase
+  const steps = new Map<string, number>([[getInitialPhase(config), 0]]);
+  const queue = [...steps.keys()];
+  for (let phase = queue.shift(); phase; phase = queue.shift()) {
+    for (const next of config.workflow.phases[phase]?.next ?? []) {
+      if (!steps.has(next)) {
+        steps.set(next, steps.get(phase)! + 1);
+        queue.push(next);
+      }
+    }
+  }
+  const fromSteps = steps.get(from);
+  const toSteps = steps.get(to);
+  return (
+    fromSteps !== undefined && toSteps !== undefined && toSteps < fromSteps
+  );
+}
+
+/**
+ * Phase a workspace starts in: `workflow.initial`, else the first phase
+ */
+export function getInitialPhase(config: SupervisorConfigType): string {
+  const initial = config.workflow?.initial ?? Object.keys(config.phases)[0];
+  if (!initial) {
+    throw new ConfigurationError('The configuration defines no phases');
+  }
+  return initial;
+}
+
+@injectable()
+export class PhaseTransitionService implements IPhaseTransitionService {
+  constructor(
+    @inject(TYPES.RuleEngine) private readonly ruleEngine: IRuleEngine,
+    @inject(TYPES.ConfigurationManager)
+    private readonly configManager: IConfigurationManager,
+    @inject(TYPES.ContextStore) private readonly contextStore: IContextStore,
+    @inject(TYPES.AuditLogService) private readonly auditLog: IAuditLogService,
+    @inject(TYPES.ApprovalService) private readonly approvals: IApprovalService,
+    @inject(TYPES.Logger) private readonly logger: ILogger
+  ) {}
+
+  async getCurrentPhase(): Promise<PhaseState> {
+    const config = await this.loadConfig();
+    const state: PhaseState | null = await this.contextStore.get(
+      CURRENT_PHASE_KEY,
+      WORKFLOW_NAMESPACE
+    );
+    if (state && config.phases[state.phase]) return state;
+    if (state) {
+      this.logger.warn(
+        `Phase '${state.phase}' is no longer configured; falling back to the initial phase`
+      );
+    }
+    return { phase: getInitialPhase(config) };
+  }
+
+  async listTransitions(from?: string): Promise<string[]> {
+    const config = await this.loadConfig();
+    const phase = from ?? (await this.getCurrentPhase()).phase;
+    if (!config.phases[phase]) throw new PhaseNotFoundError(phase);
+    return getAllowedTransitions(config, phase);
+  }
+
+  /**
+   * Promotions run the exit rules of the current phase, the entry rules
+   * and the rules of the target phase, and need an approval when the
+   * target phase requires one; without one an approval request carrying
+   * the phase result is opened. Reopening an earlier phase is never
+   * guarded, so work can always be reopened.
+   */
+  async requestTransition(
+    to: string,
+    context: Partial<RuleExecutionContext> = {},
+    options: RuleExecutionOptions = {}
+  ): Promise<PhaseTransitionResult> {
+    const config = await this.loadConfig();
+    if (!config.phases[to]) throw new PhaseNotFoundError(to);
+
+    const { phase: from } = await this.getCurrentPhase();
+    const allowed = getAllowedTransitions(config, from);
+    if (!allowed.includes(to)) {
+      throw new PhaseTransitionError(
+        `Transition from '${from}' to '${to}' is not allowed; allowed: ${allowed.length > 0 ? allowed.join(', ') : 'none'}`,
+        from,
+        to,
+        { allowed }
+      );
+    }
+
+    const result: PhaseTransitionResult = {
+      from,
+      to,
+      status: 'completed',
+      phase: from,
+      message: '',
+      exitResults: [],
+      entryResults: [],
+      failures: [],
+    };
+
+    if (!isReopenTransition(config, from, to)) {
+      const ruleContext = (phase: string): RuleExecutionContext => ({
+        target: context.workspaceRoot ?? process.cwd(),
+        ...context,
+        phase,
+      });
+      const steps = config.workflow?.phases;
+      result.exitResults = await this.enforce(
+        steps?.[from]?.onExit ?? [],
+        ruleContext(from),
+        options
+      );
+      result.entryResults = await this.enforce(
+        steps?.[to]?.onEnter ?? [],
+        ruleContext(to),
+        options
+      );
+      result.phaseResult = await this.ruleEngine.executePhase(
+        to,
+        ruleContext(to),
+        undefined,
+        options
+      );
+      result.failures = [
+        ...result.exitResults.filter(isHardFailure),
+        ...result.entryResults.filter(isHardFailure),
+        ...result.phaseResult.hardFailures,
+      ];
+
+      if (result.failures.length > 0) {
+        result.status = 'blocked';
+        result.message = `Transition from '${from}' to '${to}' blocked by ${result.failures.map(failure => failure.ruleId).join(', ')}`;
+      } else if (result.phaseResult.requiresHumanApproval) {
+        const approval = await this.approvals.findApproval(to, from);
+        if (approval) {
+          result.approval = await this.approvals.consume(approval.id);
+        } else {
+          result.status = 'awaiting-approval';
+          result.approval = await this.approvals.requestApproval(to, {
+            from,
+            phaseResult: result.phaseResult,
+            requestedBy: context.metadata?.user,
+          });
+          result.message = `Phase '${to}' requires a human approval; approval request ${result.approval.id} is pending`;
+        }
+      }
+    }
+
+    if (result.status === 'completed') {
+      const state: PhaseState = {
+        phase: to,
+        previous: from,
+        enteredAt: new Date().toISOString(),
+      };
+      await this.contextStore.set(CURRENT_PHASE_KEY, state, WORKFLOW_NAMESPACE);
+      result.phase = to;
+      result.message = `Moved from '${from}' to '${to}'`;
+    }
+
+    this.auditLog.log({
+      timestamp: Date.now(),
+      actor: context.metadata?.user || 'system',
+      action: `transition:${from}->${to}`,
+      context: { ...context },
+      result: {
+        status: result.status,
+        failures: result.failures.map(failure => failure.ruleId),
+        ...(result.approval && { approvalId: result.approval.id }),
+      },
+      deviation: result.status !== 'completed',
+      message: result.message,
+    });
+    this.logger.info(result.message);
+
+    return result;
+  }
+
+  /**
+   * Run `rule:<id>` and `group:<name>` entries; bare entries are ignored
+   * like they are in phases
+   */
+  private async enforce(
+    entries: string[],
+    context: RuleExecutionContext,
+    options: RuleExecutionOptions
+  ): Promise<RuleExecutionResult[]> {
+    const results: RuleExecutionResult[] = [];
+    for (const entry of entries) {
+      if (entry.startsWith('rule:')) {
+        results.push(
+          await this.ruleEngine.executeRule(
+            entry.slice('rule:'.length),
+            context,
+            options
+          )
+        );
+      } else if (entry.startsWith('group:')) {
+        results.push(
+          ...(await this.ruleEngine.executeRuleGroup(
+            entry.slice('group:'.length),
+            context,
+            undefined,
+            options
+          ))
+        );
+      }
+    }
+    return results;
+  }
+
+  private async loadConfig(): Promise<SupervisorConfigType> {
+    if (!this.configManager.isConfigLoaded()) {
+      await this.configManager.loadConfig();
+    }
+    return this.configManager.getConfig();
+  }
+}
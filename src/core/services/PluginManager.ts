@@ -27,7 +27,12 @@ export interface IRulePlugin {
   readonly name: string;
   readonly version: string;
   readonly description?: string;
-  execute(input: unknown, config: PluginConfigType): Promise<RuleResultType>;
+  // The signal aborts when the rule times out or the caller cancels
+  execute(
+    input: unknown,
+    config: PluginConfigType,
+    signal?: AbortSignal
+  ): Promise<RuleResultType>;
   validate?(config: PluginConfigType): boolean;
   init?(): Promise<void>;
   cleanup?(): Promise<void>;
@@ -58,7 +63,8 @@ export interface IPluginManager {
   executePlugin(
     name: string,
     input: unknown,
-    config: PluginConfigType
+    config: PluginConfigType,
+    signal?: AbortSignal
   ): Promise<RuleResultType>;
   validatePluginConfig(name: string, config: PluginConfigType): boolean;
   initializePlugins(): Promise<void>;
@@ -302,7 +308,8 @@ export class PluginManager implements IPluginManager {
   async executePlugin(
     name: string,
     input: unknown,
-    config: PluginConfigType
+    config: PluginConfigType,
+    signal?: AbortSignal
   ): Promise<RuleResultType> {
     const plugin = this.getPlugin(name);
 
@@ -315,7 +322,7 @@ export class PluginManager implements IPluginManager {
         });
       }
 
-      return await plugin.execute(input, config);
+      return await plugin.execute(input, config, signal);
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
@@ -0,0 +1,191 @@
+/**
+ * Project detection
+ * Inspects a workspace for the tooling `init` tailors a configuration to:
+ * package manager, test framework, TypeScript, monorepo layout, CI and
+ * git hooks
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import yaml from 'js-yaml';
+import { isPlainObject } from '../../utils/utils';
+
+export type PackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun';
+export type TestFramework = 'jest' | 'vitest';
+export type MonorepoTool = 'workspaces' | 'pnpm' | 'lerna' | 'nx' | 'turbo';
+export type GitHookTool =
+  | 'husky'
+  | 'lefthook'
+  | 'simple-git-hooks'
+  | 'pre-commit';
+
+export interface ProjectProfile {
+  packageManager: PackageManager | null;
+  testFramework: TestFramework | null;
+  typescript: boolean;
+  monorepo: {
+    tool: MonorepoTool;
+    // Directory globs of the member packages
+    packages: string[];
+  } | null;
+  // CI configuration files, relative to the workspace root
+  ciFiles: string[];
+  gitHooks: GitHookTool | null;
+}
+
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+];
+
+const CI_FILES = [
+  '.gitlab-ci.yml',
+  '.circleci/config.yml',
+  '.travis.yml',
+  'azure-pipelines.yml',
+  'bitbucket-pipelines.yml',
+  'Jenkinsfile',
+];
+
+const DEFAULT_PACKAGE_GLOBS = ['packages/*'];
+
+type PackageJson = Record<string, any>;
+
+function readJsonFile(path: string): PackageJson | null {
+  try {
+    const value = JSON.parse(readFileSync(path, 'utf-8'));
+    return isPlainObject(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function detectPackageManager(
+  root: string,
+  packageJson: PackageJson | null
+): PackageManager | null {
+  // Corepack's `packageManager` field, e.g. "pnpm@9.1.0"
+  const declared = String(packageJson?.packageManager ?? '').split('@')[0];
+  if (['npm', 'yarn', 'pnpm', 'bun'].includes(declared!)) {
+    return declared as PackageManager;
+  }
+  const lockfile = LOCKFILES.find(([file]) => existsSync(join(root, file)));
+  if (lockfile) return lockfile[1];
+  return packageJson ? 'npm' : null;
+}
+
+function detectTestFramework(
+  root: string,
+  dependencies: Set<string>
+): TestFramework | null {
+  const files = readdirSync(root);
+  if (
+    dependencies.has('vitest') ||
+    files.some(file => file.startsWith('vitest.config.'))
+  ) {
+    return 'vitest';
+  }
+  if (
+    dependencies.has('jest') ||
+    files.some(file => file.startsWith('jest.config.'))
+  ) {
+    return 'jest';
+  }
+  return null;
+}
+
+function detectMonorepo(
+  root: string,
+  packageJson: PackageJson | null
+): ProjectProfile['monorepo'] {
+  const workspaces = packageJson?.workspaces;
+  const workspaceGlobs: string[] | undefined = Array.isArray(workspaces)
+    ? workspaces
+    : workspaces?.packages;
+
+  if (existsSync(join(root, 'pnpm-workspace.yaml'))) {
+    let packages: unknown;
+    try {
+      const workspace = yaml.load(
+        readFileSync(join(root, 'pnpm-workspace.yaml'), 'utf-8')
+      );
+      packages = isPlainObject(workspace) ? workspace.packages : undefined;
+    } catch {
+      // Fall back to the default layout
+    }
+    return {
+      tool: 'pnpm',
+      packages: Array.isArray(packages) ? packages : DEFAULT_PACKAGE_GLOBS,
+    };
+  }
+
+  const packages = workspaceGlobs ?? DEFAULT_PACKAGE_GLOBS;
+  if (existsSync(join(root, 'nx.json'))) return { tool: 'nx', packages };
+  if (existsSync(join(root, 'turbo.json'))) return { tool: 'turbo', packages };
+  if (existsSync(join(root, 'lerna.json'))) {
+    const lerna = readJsonFile(join(root, 'lerna.json'));
+    return {
+      tool: 'lerna',
+      packages: Array.isArray(lerna?.packages) ? lerna.packages : packages,
+    };
+  }
+  return workspaceGlobs ? { tool: 'workspaces', packages } : null;
+}
+
+function detectCiFiles(root: string): string[] {
+  const ciFiles = CI_FILES.filter(file => existsSync(join(root, file)));
+  const workflows = join(root, '.github', 'workflows');
+  if (existsSync(workflows)) {
+    ciFiles.unshift(
+      ...readdirSync(workflows)
+        .filter(file => /\.ya?ml$/.test(file))
+        .sort()
+        .map(file => `.github/workflows/${file}`)
+    );
+  }
+  return ciFiles;
+}
+
+function detectGitHooks(
+  root: string,
+  packageJson: PackageJson | null
+): GitHookTool | null {
+  if (existsSync(join(root, '.husky'))) return 'husky';
+  if (
+    ['lefthook.yml', '.lefthook.yml', 'lefthook.yaml'].some(file =>
+      existsSync(join(root, file))
+    )
+  ) {
+    return 'lefthook';
+  }
+  if (packageJson?.['simple-git-hooks']) return 'simple-git-hooks';
+  if (existsSync(join(root, '.pre-commit-config.yaml'))) return 'pre-commit';
+  return null;
+}
+
+/**
+ * Inspect a workspace root. Only well-known files are read and the tree is
+ * never walked, so detection stays fast on large repositories.
+ */
+export function detectProject(workspaceRoot: string): ProjectProfile {
+  const packageJson = readJsonFile(join(workspaceRoot, 'package.json'));
+  const dependencies = new Set([
+    ...Object.keys(packageJson?.dependencies ?? {}),
+    ...Object.keys(packageJson?.devDependencies ?? {}),
+  ]);
+
+  return {
+    packageManager: detectPackageManager(workspaceRoot, packageJson),
+    testFramework: detectTestFramework(workspaceRoot, dependencies),
+    typescript:
+      dependencies.has('typescript') ||
+      existsSync(join(workspaceRoot, 'tsconfig.json')),
+    monorepo: detectMonorepo(workspaceRoot, packageJson),
+    ciFiles: detectCiFiles(workspaceRoot),
+    gitHooks: detectGitHooks(workspaceRoot, packageJson),
+  };
+}
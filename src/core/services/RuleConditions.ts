@@ -0,0 +1,89 @@
+/**
+ * Rule `when` condition evaluation
+ * Decides whether a rule applies to an execution context
+ */
+
+import type {
+  RuleConditionType,
+  RuleExecutionContextType,
+} from '../schemas/RuleEngineSchemas';
+import { matchPaths } from '../../utils/glob';
+
+const toList = <T>(value: T | T[]): T[] =>
+  Array.isArray(value) ? value : [value];
+
+function readPath(source: unknown, path: string): unknown {
+  let current: any = source;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+function compareMetric(
+  actual: number,
+  expected: NonNullable<RuleConditionType['metrics']>[string]
+): boolean {
+  if (typeof expected === 'number') {
+    return actual === expected;
+  }
+  return (
+    (expected.eq === undefined || actual === expected.eq) &&
+    (expected.gt === undefined || actual > expected.gt) &&
+    (expected.gte === undefined || actual >= expected.gte) &&
+    (expected.lt === undefined || actual < expected.lt) &&
+    (expected.lte === undefined || actual <= expected.lte)
+  );
+}
+
+/**
+ * Evaluate a rule condition against an execution context.
+ * File clauses are only checked when the context lists changed files,
+ * so rules still run when the caller does not know what changed.
+ * @returns Descriptions of the clauses that do not hold (empty when the rule applies)
+ */
+export function evaluateRuleCondition(
+  condition: RuleConditionType | undefined,
+  context: RuleExecutionContextType
+): string[] {
+  if (!condition) return [];
+  const unmet: string[] = [];
+
+  if (condition.files !== undefined && context.files) {
+    const patterns = toList(condition.files);
+    const files = context.files;
+    if (!patterns.some(pattern => matchPaths(files, pattern).length > 0)) {
+      unmet.push(`files: ${patterns.join(', ')}`);
+    }
+  }
+
+  if (condition.target !== undefined) {
+    const patterns = toList(condition.target);
+    if (
+      !patterns.some(
+        pattern => matchPaths([context.target], pattern).length > 0
+      )
+    ) {
+      unmet.push(`target: ${patterns.join(', ')}`);
+    }
+  }
+
+  for (const [path, expected] of Object.entries(condition.metadata ?? {})) {
+    const actual = readPath(context.metadata, path);
+    if (!toList(expected).some(value => value === actual)) {
+      unmet.push(`metadata.${path}`);
+    }
+  }
+
+  for (const [name, expected] of Object.entries(condition.metrics ?? {})) {
+    const actual = context.metrics?.[name];
+    if (actual === undefined || !compareMetric(actual, expected)) {
+      unmet.push(`metrics.${name}`);
+    }
+  }
+
+  return unmet;
+}
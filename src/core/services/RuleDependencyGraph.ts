@@ -0,0 +1,117 @@
+/**
+ * Rule dependency graph
+ * Validates `dependsOn` and composite references and orders rules so
+ * prerequisites run first
+ */
+
+import type { SupervisorRuleType } from '../schemas/RuleEngineSchemas';
+import { ConfigurationError } from '../errors/RuleEngineErrors';
+
+/**
+ * Rules a rule needs: its prerequisites plus, for composites, its children
+ */
+function ruleReferences(rule: SupervisorRuleType): string[] {
+  const children = rule.type === 'composite' ? rule.rules : [];
+  return [...(rule.dependsOn ?? []), ...children];
+}
+
+/**
+ * Find a dependency cycle among the configured rules
+ * @returns The cycle as a path that starts and ends with the same rule id, or null
+ */
+export function findDependencyCycle(
+  rules: Record<string, SupervisorRuleType>
+): string[] | null {
+  const visited = new Set<string>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+
+  const visit = (ruleId: string): string[] | null => {
+    if (onStack.has(ruleId)) {
+      return [...stack.slice(stack.indexOf(ruleId)), ruleId];
+    }
+    if (visited.has(ruleId)) return null;
+
+    visited.add(ruleId);
+    stack.push(ruleId);
+    onStack.add(ruleId);
+
+    const rule = rules[ruleId];
+    for (const dependency of rule ? ruleReferences(rule) : []) {
+      if (!rules[dependency]) continue;
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+
+    stack.pop();
+    onStack.delete(ruleId);
+    return null;
+  };
+
+  for (const ruleId of Object.keys(rules)) {
+    const cycle = visit(ruleId);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Ensure every `dependsOn` entry and composite child names an existing
+ * rule and that the resulting graph is acyclic
+ */
+export function validateRuleDependencies(
+  rules: Record<string, SupervisorRuleType>
+): void {
+  for (const [ruleId, rule] of Object.entries(rules)) {
+    const unknown = ruleReferences(rule).filter(
+      dependency => !rules[dependency]
+    );
+    if (unknown.length > 0) {
+      throw new ConfigurationError(
+        `Rule '${ruleId}' references unknown rule(s): ${unknown.join(', ')}`,
+        { ruleId, unknown }
+      );
+    }
+  }
+
+  const cycle = findDependencyCycle(rules);
+  if (cycle) {
+    throw new ConfigurationError(
+      `Rule dependency cycle detected: ${cycle.join(' -> ')}`,
+      { cycle }
+    );
+  }
+}
+
+/**
+ * Order rules so that each rule comes after the prerequisites it depends on.
+ * Only dependencies within the given set are considered; otherwise the
+ * original order is kept. Duplicate rule ids are dropped.
+ */
+export function orderRulesByDependencies(
+  rules: SupervisorRuleType[]
+): SupervisorRuleType[] {
+  const byId = new Map<string, SupervisorRuleType>();
+  for (const rule of rules) {
+    if (!byId.has(rule.id)) byId.set(rule.id, rule);
+  }
+
+  const ordered: SupervisorRuleType[] = [];
+  const placed = new Set<string>();
+  const visiting = new Set<string>();
+
+  const place = (rule: SupervisorRuleType): void => {
+    if (placed.has(rule.id) || visiting.has(rule.id)) return;
+    visiting.add(rule.id);
+    for (const dependency of rule.dependsOn ?? []) {
+      const prerequisite = byId.get(dependency);
+      if (prerequisite) place(prerequisite);
+    }
+    visiting.delete(rule.id);
+    placed.add(rule.id);
+    ordered.push(rule);
+  };
+
+  byId.forEach(place);
+  return ordered;
+}
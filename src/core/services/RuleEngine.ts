@@ -4,20 +4,35 @@
  * Clean, modern implementation without any legacy compatibility
  */
 
-import { injectable, inject } from 'inversify';
-import { IRuleEngine, PhaseExecutionResult } from '../interfaces/IRuleEngine';
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { injectable, inject, optional } from 'inversify';
+import {
+  IRuleEngine,
+  PhaseExecutionResult,
+  RuleExecutionOptions,
+} from '../interfaces/IRuleEngine';
 import type { ILogger } from '../interfaces/ILogger';
 import type {
   SupervisorConfigType,
   SupervisorRuleType,
   RuleExecutionContext,
   RuleExecutionResult,
+  RuleResultType,
+  RuleStatus,
   PhaseConfigType,
 } from '../schemas/RuleEngineSchemas';
 import type { IConfigurationManager } from './ConfigurationManager';
 import type { IPluginManager } from './PluginManager';
-import type { IRuleExecutorFactory } from './RuleExecutors';
+import {
+  CompositeRuleExecutor,
+  type IRuleExecutorFactory,
+} from './RuleExecutors';
 import type { IAuditLogService } from '../interfaces/IAuditLogService';
+import type {
+  IRuleResultCache,
+  RuleResultCacheStats,
+} from '../interfaces/IRuleResultCache';
 import {
   ConfigurationNotLoadedError,
   PhaseNotFoundError,
@@ -25,16 +40,41 @@ import {
   RuleNotFoundError,
   PhaseExecutionError,
   RuleExecutionError,
+  RuleTimeoutError,
+  ExecutionCancelledError,
 } from '../errors/RuleEngineErrors';
 import { promisePool } from '../../utils/promisePool';
+import { delay, runAbortable } from '../../utils/abort';
+import { orderRulesByDependencies } from './RuleDependencyGraph';
+import { evaluateRuleCondition } from './RuleConditions';
+import { findWaivers } from './RuleWaivers';
+import { lintConfig } from './ConfigDiagnostics';
+import { computeRuleCacheKey, isCacheableRule } from './RuleResultCache';
+import { stableStringify } from '../../utils/utils';
 import { TYPES } from '../../config/types';
 
+// Delay before the first retry when neither the rule nor defaults set one
+const DEFAULT_RETRY_BACKOFF_MS = 250;
+
+// Statuses of rules that could not reach a verdict
+const isErrorStatus = (status: RuleStatus): boolean =>
+  status === 'errored' || status === 'timeout';
+
 /**
  * Modern Rule Engine implementation
  * Uses only the types from schemas and interfaces - no local duplicates
  */
 @injectable()
 export class RuleEngine implements IRuleEngine {
+  // Config snapshot of the executePhase call in progress, if any
+  private readonly phaseConfig = new AsyncLocalStorage<SupervisorConfigType>();
+  // Last computed cache fingerprint and the inputs it was computed from
+  private fingerprint: {
+    config: SupervisorConfigType;
+    plugins: string;
+    value: string;
+  } | null = null;
+
   constructor(
     @inject(TYPES.ConfigurationManager)
     private readonly configManager: IConfigurationManager,
@@ -42,8 +82,18 @@ export class RuleEngine implements IRuleEngine {
     @inject(TYPES.RuleExecutorFactory)
     private readonly executorFactory: IRuleExecutorFactory,
     @inject(TYPES.Logger) private readonly logger: ILogger,
-    @inject(TYPES.AuditLogService) private readonly auditLog: IAuditLogService
-  ) {}
+    @inject(TYPES.AuditLogService) private readonly auditLog: IAuditLogService,
+    @inject(TYPES.RuleResultCache)
+    @optional()
+    private readonly resultCache?: IRuleResultCache
+  ) {
+    // Composite rules run their children through this engine
+    this.executorFactory.registerExecutor(
+      new CompositeRuleExecutor(logger, (ruleId, context, signal) =>
+        this.executeRule(ruleId, context, { signal })
+      )
+    );
+  }
 
   /**
    * Load configuration from file
@@ -71,6 +121,11 @@ export class RuleEngine implements IRuleEngine {
    * Get current configuration
    */
   getConfig(): SupervisorConfigType {
+    const snapshot = this.phaseConfig.getStore();
+    if (snapshot) {
+      return snapshot;
+    }
+
     if (!this.configManager.isConfigLoaded()) {
       throw new ConfigurationNotLoadedError();
     }
@@ -79,21 +134,31 @@ export class RuleEngine implements IRuleEngine {
   }
 
   /**
-   * Execute rules for a specific phase (now parallelized)
+   * Execute rules for a specific phase (parallelized, in dependency order)
    */
   async executePhase(
     phase: string,
     context: RuleExecutionContext,
-    concurrency = 5
+    concurrency = 5,
+    options: RuleExecutionOptions = {}
+  ): Promise<PhaseExecutionResult> {
+    // Every rule of the phase reads the config the phase started with,
+    // even if the configuration is reloaded while they run
+    return this.phaseConfig.run(this.getConfig(), () =>
+      this.runPhase(phase, context, concurrency, options.signal)
+    );
+  }
+
+  private async runPhase(
+    phase: string,
+    context: RuleExecutionContext,
+    concurrency: number,
+    signal?: AbortSignal
   ): Promise<PhaseExecutionResult> {
     const startTime = Date.now();
     let auditEntry: any = null;
     try {
-      if (!this.configManager.isConfigLoaded()) {
-        throw new ConfigurationNotLoadedError();
-      }
-
-      const config = this.configManager.getConfig();
+      const config = this.getConfig();
       const phaseConfig = config.phases[phase];
 
       if (!phaseConfig) {
@@ -102,48 +167,61 @@ export class RuleEngine implements IRuleEngine {
 
       this.logger.info(`Executing phase: ${phase}`);
 
-      const rules = await this.getPhaseRules(phase);
+      const rules = orderRulesByDependencies(await this.getPhaseRules(phase));
       const results: RuleExecutionResult[] = [];
       const hardFailures: RuleExecutionResult[] = [];
       const softFailures: RuleExecutionResult[] = [];
+      const skipped: RuleExecutionResult[] = [];
+      const errored: RuleExecutionResult[] = [];
+      const waived: RuleExecutionResult[] = [];
+      const onRuleError =
+        phaseConfig.onRuleError ?? config.defaults?.onRuleError ?? 'fail';
       let passed = true;
 
-      // Parallel rule execution with concurrency limit
-      const ruleTasks = rules.map(rule => async () => {
-        try {
-          const result = await this.executeRule(rule.id, context);
-          if (!result.passed) {
+      // Settled result per rule, awaited by dependent rules
+      const settled = new Map<string, Promise<RuleExecutionResult>>();
+
+      // Parallel rule execution with concurrency limit; rules are in
+      // dependency order so prerequisites always start before dependents
+      const ruleTasks = rules.map(rule => {
+        let settle: (result: RuleExecutionResult) => void = () => {};
+        settled.set(
+          rule.id,
+          new Promise(resolve => {
+            settle = resolve;
+          })
+        );
+
+        return async () => {
+          const result = await this.executePhaseRule(
+            rule,
+            context,
+            settled,
+            signal
+          );
+          if (result.status === 'skipped') {
+            skipped.push(result);
+          } else if (result.status === 'waived') {
+            waived.push(result);
+          } else if (isErrorStatus(result.status)) {
+            errored.push(result);
+            if (rule.enforcement === 'hard' && onRuleError === 'fail') {
+              hardFailures.push(result);
+            } else {
+              softFailures.push(result);
+            }
+          } else if (result.status === 'failed') {
             if (rule.enforcement === 'hard') {
               hardFailures.push(result);
             } else {
               softFailures.push(result);
             }
           }
+          settle(result);
           return result;
-        } catch (error) {
-          const errorMessage =
-            error instanceof Error ? error.message : 'Unknown error';
-          this.logger.error(
-            `Rule ${rule.id} execution failed: ${errorMessage}`
-          );
-          const failureResult: RuleExecutionResult = {
-            ruleId: rule.id,
-            ruleType: rule.type,
-            enforcement: rule.enforcement,
-            passed: false,
-            message: `Rule execution failed: ${errorMessage}`,
-            executionTime: 0,
-            data: { error: errorMessage },
-          };
-          if (rule.enforcement === 'hard') {
-            hardFailures.push(failureResult);
-          } else {
-            softFailures.push(failureResult);
-          }
-          return failureResult;
-        }
+        };
       });
-      const parallelResults = await promisePool(ruleTasks, concurrency);
+      const parallelResults = await promisePool(ruleTasks, concurrency, signal);
       results.push(...parallelResults);
       passed = hardFailures.length === 0;
 
@@ -155,6 +233,9 @@ export class RuleEngine implements IRuleEngine {
         results,
         hardFailures,
         softFailures,
+        skipped,
+        errored,
+        waived,
         requiresHumanApproval: await this.requiresHumanApproval(phase),
       };
 
@@ -194,6 +275,11 @@ export class RuleEngine implements IRuleEngine {
         message: 'Phase execution error',
       };
       this.auditLog.log(auditEntry);
+      if (signal?.aborted) {
+        throw new ExecutionCancelledError(`Phase '${phase}' was cancelled`, {
+          phase,
+        });
+      }
       throw new PhaseExecutionError(
         `Phase execution failed: ${errorMessage}`,
         phase,
@@ -202,99 +288,186 @@ export class RuleEngine implements IRuleEngine {
     }
   }
 
+  /**
+   * Execute a rule within a phase once its prerequisites have settled.
+   * The rule is skipped when a prerequisite hard-failed or was skipped
+   * because of its own prerequisites, unless it opts out with
+   * `skipIfFailed: false`.
+   */
+  private async executePhaseRule(
+    rule: SupervisorRuleType,
+    context: RuleExecutionContext,
+    settled: Map<string, Promise<RuleExecutionResult>>,
+    signal?: AbortSignal
+  ): Promise<RuleExecutionResult> {
+    const prerequisites = await Promise.all(
+      (rule.dependsOn ?? [])
+        .map(dependency => settled.get(dependency))
+        .filter(
+          (result): result is Promise<RuleExecutionResult> =>
+            result !== undefined
+        )
+    );
+    // Rules skipped by their own `when` condition or waived do not block
+    // dependents
+    const blockedBy = prerequisites
+      .filter(result =>
+        result.skipped
+          ? Array.isArray(result.data?.blockedBy)
+          : !result.passed &&
+            result.status !== 'waived' &&
+            result.enforcement === 'hard'
+      )
+      .map(result => result.ruleId);
+
+    if (blockedBy.length > 0 && rule.skipIfFailed !== false) {
+      this.logger.info(
+        `Skipping rule ${rule.id}: prerequisite ${blockedBy.join(', ')} failed`
+      );
+      const skippedResult: RuleExecutionResult = {
+        ruleId: rule.id,
+        ruleType: rule.type,
+        enforcement: rule.enforcement,
+        status: 'skipped',
+        passed: false,
+        skipped: true,
+        message: `Skipped: prerequisite ${blockedBy.join(', ')} failed`,
+        executionTime: 0,
+        data: { blockedBy },
+      };
+      this.auditLog.log({
+        timestamp: Date.now(),
+        actor: context.metadata?.user || 'system',
+        action: `executeRule:${rule.id}`,
+        context: { ...context },
+        result: skippedResult,
+        message: skippedResult.message,
+        status: skippedResult.status,
+      });
+      return skippedResult;
+    }
+
+    try {
+      return await this.executeRule(rule.id, context, { signal });
+    } catch (error) {
+      if (error instanceof ExecutionCancelledError) {
+        throw error;
+      }
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Rule ${rule.id} execution failed: ${errorMessage}`);
+      if (error instanceof RuleExecutionError && error.context?.result) {
+        return {
+          ...(error.context.result as RuleExecutionResult),
+          ruleType: rule.type,
+          enforcement: rule.enforcement,
+        };
+      }
+      return {
+        ruleId: rule.id,
+        ruleType: rule.type,
+        enforcement: rule.enforcement,
+        status: 'errored',
+        passed: false,
+        message: `Rule execution failed: ${errorMessage}`,
+        executionTime: 0,
+        data: { error: errorMessage },
+      };
+    }
+  }
+
   /**
    * Execute a single rule
    */
   async executeRule(
     ruleId: string,
-    context: RuleExecutionContext
+    context: RuleExecutionContext,
+    options: RuleExecutionOptions = {}
   ): Promise<RuleExecutionResult> {
     const startTime = Date.now();
     let auditEntry: any = null;
     try {
-      if (!this.configManager.isConfigLoaded()) {
-        throw new ConfigurationNotLoadedError();
-      }
-
-      const config = this.configManager.getConfig();
+      const config = this.getConfig();
       const rule = config.rules[ruleId];
 
       if (!rule) {
         throw new RuleNotFoundError(ruleId);
       }
 
-      this.logger.debug(`Executing rule: ${ruleId}`);
-
-      // --- NEW: Handle custom rule types ---
-      let result: any;
-      switch (rule.type) {
-        case 'commit-message': {
-          // Validate commit message using regex or template
-          const commitMsg = context.metadata?.commitMessage || '';
-          const pattern = new RegExp((rule as any).pattern);
-          const passed = pattern.test(commitMsg);
-          result = {
-            passed,
-            message: passed
-              ? 'Commit message is valid'
-              : rule.message || 'Invalid commit message',
-            data: { commitMsg, pattern: (rule as any).pattern },
-          };
-          break;
-        }
-        case 'security-posture': {
-          // Simulate security check (e.g., dependency scan)
-          // In real use, invoke a plugin or service
-          const checkType = (rule as any).check;
-          // For demo, always pass; extend as needed
-          result = {
-            passed: true,
-            message: 'Security posture check passed',
-            data: { checkType },
-          };
-          break;
-        }
-        case 'structure': {
-          // Validate required files/directories in context.metadata.fileTree
-          const files = context.metadata?.fileTree?.files || [];
-          const dirs = context.metadata?.fileTree?.directories || [];
-          const requiredFiles = (rule as any).requiredFiles || [];
-          const requiredDirs = (rule as any).requiredDirectories || [];
-          const missingFiles = requiredFiles.filter(
-            (f: string) => !files.includes(f)
-          );
-          const missingDirs = requiredDirs.filter(
-            (d: string) => !dirs.includes(d)
-          );
-          const passed = missingFiles.length === 0 && missingDirs.length === 0;
-          result = {
-            passed,
-            message: passed
-              ? 'Structure is valid'
-              : rule.message ||
-                `Missing: ${[...missingFiles, ...missingDirs].join(', ')}`,
-            data: { missingFiles, missingDirs },
-          };
-          break;
-        }
-        default: {
-          // Default: use executor factory for standard rule types
-          const executor = this.executorFactory.createExecutor(rule.type);
-          result = await executor.executeRule(rule, context.input || context);
-        }
+      const unmet = evaluateRuleCondition(rule.when, context);
+      if (unmet.length > 0) {
+        const skippedResult: RuleExecutionResult = {
+          ruleId,
+          ruleType: rule.type,
+          enforcement: rule.enforcement,
+          status: 'skipped',
+          passed: false,
+          skipped: true,
+          message: `Skipped: condition not met (${unmet.join('; ')})`,
+          executionTime: Date.now() - startTime,
+          data: { unmetConditions: unmet },
+        };
+        this.logger.debug(`Skipping rule ${ruleId}: condition not met`);
+        this.auditLog.log({
+          timestamp: Date.now(),
+          actor: context.metadata?.user || 'system',
+          action: `executeRule:${ruleId}`,
+          context: { ...context },
+          result: skippedResult,
+          message: skippedResult.message,
+          status: skippedResult.status,
+        });
+        return skippedResult;
       }
 
-      const executionTime = Date.now() - startTime;
-      const resultObj = {
-        ruleId,
-        ruleType: rule.type,
-        enforcement: rule.enforcement,
-        passed: result.passed,
-        message: result.message || `Rule ${ruleId} executed`,
-        score: result.score,
-        executionTime,
-        data: result.data,
-      };
+      const cacheKey =
+        this.resultCache && isCacheableRule(rule)
+          ? await this.getCacheKey(rule, context, config)
+          : null;
+      const cached = cacheKey ? await this.resultCache!.get(cacheKey) : null;
+
+      let resultObj: RuleExecutionResult;
+      if (cached) {
+        this.logger.debug(`Reusing cached result for rule: ${ruleId}`);
+        resultObj = {
+          ...cached,
+          cached: true,
+          executionTime: Date.now() - startTime,
+        };
+      } else {
+        this.logger.debug(`Executing rule: ${ruleId}`);
+
+        const result = await this.runExecutor(
+          rule,
+          context,
+          config,
+          options.signal
+        );
+
+        const executionTime = Date.now() - startTime;
+        resultObj = {
+          ruleId,
+          ruleType: rule.type,
+          enforcement: rule.enforcement,
+          status: result.timedOut
+            ? 'timeout'
+            : result.passed
+              ? 'passed'
+              : 'failed',
+          passed: result.passed,
+          message: result.message || `Rule ${ruleId} executed`,
+          score: result.score,
+          executionTime,
+          violations: result.violations,
+          data: result.data,
+        };
+        if (cacheKey && !result.timedOut) {
+          await this.resultCache!.set(cacheKey, resultObj);
+        }
+      }
+      // Waivers are applied after caching so an expiry takes effect even
+      // when the result is reused
+      resultObj = this.applyWaivers(rule, context, config, resultObj);
       // --- Audit log ---
       auditEntry = {
         timestamp: Date.now(),
@@ -303,6 +476,7 @@ export class RuleEngine implements IRuleEngine {
         context: { ...context },
         result: resultObj,
         message: resultObj.message,
+        status: resultObj.status,
       };
       this.auditLog.log(auditEntry);
       return resultObj;
@@ -326,12 +500,14 @@ export class RuleEngine implements IRuleEngine {
             error && typeof error === 'object' && 'enforcement' in error
               ? (error as any).enforcement
               : 'soft',
+          status: 'errored',
           passed: false,
           message: `Rule execution failed: ${errorMessage}`,
           executionTime,
           data: { error: errorMessage },
         },
         message: 'Rule execution error',
+        status: 'errored',
         executionTime,
       };
       this.auditLog.log(auditEntry);
@@ -346,11 +522,15 @@ export class RuleEngine implements IRuleEngine {
           error && typeof error === 'object' && 'enforcement' in error
             ? (error as any).enforcement
             : 'soft',
+        status: 'errored',
         passed: false,
         message: `Rule execution failed: ${errorMessage}`,
         executionTime,
         data: { error: errorMessage },
       };
+      if (error instanceof ExecutionCancelledError) {
+        throw error;
+      }
       // Always set originalError to the underlying error (unwrap if already RuleExecutionError)
       let originalError = error;
       if (error instanceof RuleExecutionError && error.context?.originalError) {
@@ -366,13 +546,28 @@ export class RuleEngine implements IRuleEngine {
     }
   }
 
+  /**
+   * Get rule result cache statistics, or null when caching is off
+   */
+  async getCacheStats(): Promise<RuleResultCacheStats | null> {
+    return this.resultCache ? this.resultCache.getStats() : null;
+  }
+
+  /**
+   * Drop every cached rule result
+   */
+  async clearCache(): Promise<void> {
+    await this.resultCache?.clear();
+  }
+
   /**
    * Execute a group of rules (now parallelized)
    */
   async executeRuleGroup(
     groupName: string,
     context: RuleExecutionContext,
-    concurrency = 5
+    concurrency = 5,
+    options: RuleExecutionOptions = {}
   ): Promise<RuleExecutionResult[]> {
     try {
       if (!this.configManager.isConfigLoaded()) {
@@ -389,34 +584,50 @@ export class RuleEngine implements IRuleEngine {
       this.logger.info(`Executing rule group: ${groupName}`);
 
       // Parallel rule execution with concurrency limit
-      const ruleTasks = group.map((ruleId: string) => async () => {
-        try {
-          return await this.executeRule(ruleId, context);
-        } catch (error) {
-          const errorMessage =
-            error instanceof Error ? error.message : 'Unknown error';
-          this.logger.error(
-            `Rule ${ruleId} in group ${groupName} failed: ${errorMessage}`
-          );
-          return {
-            ruleId,
-            ruleType: 'unknown',
-            enforcement: 'soft',
-            passed: false,
-            message: `Rule execution failed: ${errorMessage}`,
-            executionTime: 0,
-            data: { error: errorMessage },
-          };
+      const ruleTasks = group.map(
+        (ruleId: string) => async (): Promise<RuleExecutionResult> => {
+          try {
+            return await this.executeRule(ruleId, context, options);
+          } catch (error) {
+            if (error instanceof ExecutionCancelledError) {
+              throw error;
+            }
+            const errorMessage =
+              error instanceof Error ? error.message : 'Unknown error';
+            this.logger.error(
+              `Rule ${ruleId} in group ${groupName} failed: ${errorMessage}`
+            );
+            if (error instanceof RuleExecutionError && error.context?.result) {
+              return error.context.result as RuleExecutionResult;
+            }
+            return {
+              ruleId,
+              ruleType: 'unknown',
+              enforcement: 'soft',
+              status: 'errored',
+              passed: false,
+              message: `Rule execution failed: ${errorMessage}`,
+              executionTime: 0,
+              data: { error: errorMessage },
+            };
+          }
         }
-      });
-      return promisePool(ruleTasks, concurrency);
+      );
+      return await promisePool(ruleTasks, concurrency, options.signal);
     } catch (error: unknown) {
       if (
         error instanceof ConfigurationNotLoadedError ||
-        error instanceof RuleGroupNotFoundError
+        error instanceof RuleGroupNotFoundError ||
+        error instanceof ExecutionCancelledError
       ) {
         throw error;
       }
+      if (options.signal?.aborted) {
+        throw new ExecutionCancelledError(
+          `Rule group '${groupName}' was cancelled`,
+          { groupName }
+        );
+      }
 
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
@@ -553,10 +764,179 @@ export class RuleEngine implements IRuleEngine {
     if (config.extensions?.plugins) {
       await this.loadConfigurationPlugins(config.extensions.plugins);
     }
+
+    // Plugin names are only known once the plugins are loaded
+    const unknownPlugins = lintConfig(config, {
+      pluginNames: this.pluginManager.listPlugins(),
+    }).filter(diagnostic => diagnostic.code === 'unknown-plugin');
+    for (const diagnostic of unknownPlugins) {
+      this.logger.warn(diagnostic.message);
+    }
   }
 
   // Helper methods
 
+  /**
+   * Run a rule's executor under its timeout and retry settings, falling
+   * back to the configured defaults. Attempts that throw or time out are
+   * retried with exponential backoff; a returned result, even a failing
+   * one, is final. When every attempt times out the result is marked
+   * `timedOut` rather than thrown.
+   */
+  private async runExecutor(
+    rule: SupervisorRuleType,
+    context: RuleExecutionContext,
+    config: SupervisorConfigType,
+    signal?: AbortSignal
+  ): Promise<RuleResultType & { timedOut?: boolean }> {
+    const executor = this.executorFactory.createExecutor(rule.type);
+    const timeoutMs = rule.timeoutMs ?? config.defaults?.timeoutMs;
+    const retries = rule.retries ?? config.defaults?.retries ?? 0;
+    const backoffMs =
+      rule.retryBackoffMs ??
+      config.defaults?.retryBackoffMs ??
+      DEFAULT_RETRY_BACKOFF_MS;
+    const cancelled = (): ExecutionCancelledError =>
+      new ExecutionCancelledError(`Rule '${rule.id}' was cancelled`, {
+        ruleId: rule.id,
+      });
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await runAbortable(
+          attemptSignal =>
+            executor.executeRule(rule, context.input || context, attemptSignal),
+          {
+            timeoutMs,
+            signal,
+            onTimeout: () => new RuleTimeoutError(rule.id, timeoutMs ?? 0),
+          }
+        );
+      } catch (error) {
+        if (signal?.aborted) {
+          throw cancelled();
+        }
+        if (attempt > retries) {
+          if (error instanceof RuleTimeoutError) {
+            return {
+              passed: false,
+              timedOut: true,
+              message: error.message,
+              data: { timeoutMs, attempts: attempt },
+            };
+          }
+          throw error;
+        }
+
+        const wait = backoffMs * 2 ** (attempt - 1);
+        this.logger.warn(
+          `Rule ${rule.id} attempt ${attempt} failed, retrying in ${wait}ms: ${error instanceof Error ? error.message : error}`
+        );
+        await delay(wait, signal).catch(() => {
+          throw cancelled();
+        });
+      }
+    }
+  }
+
+  /**
+   * Turn a failure into a `waived` result when an active waiver covers the
+   * rule in this context. Failures only covered by expired waivers stay
+   * failed and name the expired waivers. Both cases are audited.
+   */
+  private applyWaivers(
+    rule: SupervisorRuleType,
+    context: RuleExecutionContext,
+    config: SupervisorConfigType,
+    result: RuleExecutionResult
+  ): RuleExecutionResult {
+    if (result.status !== 'failed') {
+      return result;
+    }
+
+    const { active, expired } = findWaivers(config.waivers, rule.id, context);
+    const actor = context.metadata?.user || 'system';
+    const [waiver] = active;
+    if (waiver) {
+      const message = `Waived by '${waiver.id}' (${waiver.author}, until ${waiver.expires}): ${waiver.reason}`;
+      this.auditLog.log({
+        timestamp: Date.now(),
+        actor,
+        action: 'waiver:applied',
+        context: { waiverId: waiver.id, ruleId: rule.id, phase: context.phase },
+        result: { status: 'waived', message: result.message },
+        deviation: true,
+        message,
+      });
+      this.logger.info(`Rule ${rule.id} failed; ${message}`);
+      return {
+        ...result,
+        status: 'waived',
+        message: `${result.message} [${message}]`,
+        data: {
+          ...result.data,
+          waiver: {
+            id: waiver.id,
+            reason: waiver.reason,
+            author: waiver.author,
+            expires: waiver.expires,
+          },
+        },
+      };
+    }
+
+    if (expired.length === 0) {
+      return result;
+    }
+    const ids = expired.map(entry => entry.id);
+    this.auditLog.log({
+      timestamp: Date.now(),
+      actor,
+      action: 'waiver:expired',
+      context: { waiverIds: ids, ruleId: rule.id, phase: context.phase },
+      result: { status: 'failed', message: result.message },
+      message: `Waiver ${ids.join(', ')} for rule '${rule.id}' expired`,
+    });
+    this.logger.warn(
+      `Rule ${rule.id} failed; waiver ${ids.join(', ')} expired`
+    );
+    return {
+      ...result,
+      data: { ...result.data, expiredWaivers: ids },
+    };
+  }
+
+  /**
+   * Compute a rule's cache key, first dropping cached results if the
+   * configuration or the loaded plugin versions changed since they were
+   * stored
+   */
+  private async getCacheKey(
+    rule: SupervisorRuleType,
+    context: RuleExecutionContext,
+    config: SupervisorConfigType
+  ): Promise<string> {
+    const plugins = this.pluginManager
+      .listPlugins()
+      .map(name => `${name}@${this.pluginManager.getPlugin(name).version}`)
+      .sort()
+      .join(',');
+    if (
+      this.fingerprint?.config !== config ||
+      this.fingerprint.plugins !== plugins
+    ) {
+      this.fingerprint = {
+        config,
+        plugins,
+        value: createHash('sha256')
+          .update(stableStringify({ config, plugins }))
+          .digest('hex'),
+      };
+    }
+    await this.resultCache!.syncFingerprint(this.fingerprint.value);
+    return computeRuleCacheKey(rule, context);
+  }
+
   /**
    * Load plugins specified in configuration
    */
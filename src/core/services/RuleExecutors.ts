@@ -11,7 +11,15 @@ import type {
   PatternRuleType,
   AIRuleType,
   PluginRuleType,
+  CommitMessageRuleType,
+  StructureRuleType,
+  SecurityPostureRuleType,
+  CompositeRuleType,
+  RuleExecutionContext,
+  RuleExecutionContextType,
+  RuleExecutionResult,
   RuleResultType,
+  ViolationType,
 } from '../schemas/RuleEngineSchemas';
 import {
   RuleExecutionError,
@@ -20,6 +28,25 @@ import {
 } from '../errors/RuleEngineErrors';
 import { TYPES } from '../../config/types';
 import { injectable, inject } from 'inversify';
+import { promises as fs } from 'fs';
+import { isAbsolute, relative, resolve, sep } from 'path';
+import { readCommits, type GitCommit } from '../../utils/git';
+import { toLocation } from '../../utils/jsonLocation';
+import {
+  matchPaths,
+  normalizeRelativePath,
+  readFileTree,
+  type FileTree,
+} from '../../utils/glob';
+import {
+  createSecurityCheckRegistry,
+  type ISecurityCheckRegistry,
+  type SecurityFinding,
+} from './SecurityChecks';
+import {
+  createAiAgentProviderRegistry,
+  type IAiAgentProviderRegistry,
+} from './AiAgentProviders';
 
 /**
  * Rule executor interface
@@ -30,7 +57,12 @@ export interface IRuleExecutor<
   readonly ruleType: T['type'];
   canExecute(rule: SupervisorRuleType): rule is T;
   validateRule(rule: T): Promise<void>;
-  executeRule(rule: T, input: unknown): Promise<RuleResultType>;
+  // The signal aborts when the rule times out or the caller cancels
+  executeRule(
+    rule: T,
+    input: unknown,
+    signal?: AbortSignal
+  ): Promise<RuleResultType>;
 }
 
 /**
@@ -144,6 +176,12 @@ export class ThresholdRuleExecutor implements IRuleExecutor<ThresholdRuleType> {
   }
 }
 
+// Pattern rule target that matches the contents of the changed files
+const FILES_TARGET = 'files';
+// Violations reported per file or value; a forbidden pattern can match
+// thousands of times
+const MAX_VIOLATIONS = 100;
+
 /**
  * Pattern rule executor
  */
@@ -195,6 +233,10 @@ export class PatternRuleExecutor implements IRuleExecutor<PatternRuleType> {
 
       this.logger.debug(`Executing pattern rule: ${rule.id}`);
 
+      if (rule.target === FILES_TARGET) {
+        return await this.matchFiles(rule, input);
+      }
+
       // Extract the value from input based on the target path
       const targetValue = this.extractValue(input, rule.target);
 
@@ -208,16 +250,18 @@ export class PatternRuleExecutor implements IRuleExecutor<PatternRuleType> {
 
       const regex = new RegExp(rule.pattern);
       const matches = regex.exec(targetValue);
-      const passed = matches !== null;
+      const found = matches !== null;
+      const passed = rule.forbid ? !found : found;
 
       const message =
         rule.message ||
-        `Pattern ${rule.pattern} ${passed ? 'matches' : 'does not match'} target value`;
+        `Pattern ${rule.pattern} ${found ? 'matches' : 'does not match'} target value`;
 
       return {
         passed,
         message,
         score: passed ? 1 : 0,
+        violations: passed ? [] : this.findViolations(rule, targetValue),
         data: {
           pattern: rule.pattern,
           target: rule.target,
@@ -243,6 +287,103 @@ export class PatternRuleExecutor implements IRuleExecutor<PatternRuleType> {
     }
   }
 
+  /**
+   * Match the contents of the changed files. A required pattern must
+   * match every file, a forbidden one none. Files that no longer exist or
+   * resolve outside the workspace, also through symlinks, are left out.
+   */
+  private async matchFiles(
+    rule: PatternRuleType,
+    input: unknown
+  ): Promise<RuleResultType> {
+    const context = (input ?? {}) as RuleExecutionContextType;
+    const root = await fs.realpath(context.workspaceRoot || process.cwd());
+    const regex = new RegExp(rule.pattern);
+    const violations: ViolationType[] = [];
+    const checked: string[] = [];
+
+    for (const requested of context.files ?? []) {
+      let file: string;
+      let content: string;
+      try {
+        const fullPath = await fs.realpath(resolve(root, requested));
+        file = relative(root, fullPath);
+        if (file === '..' || file.startsWith(`..${sep}`) || isAbsolute(file)) {
+          this.logger.warn(
+            `Pattern rule ${rule.id} skips ${requested} outside the workspace`
+          );
+          continue;
+        }
+        file = normalizeRelativePath(file);
+        content = await fs.readFile(fullPath, 'utf-8');
+      } catch {
+        this.logger.debug(
+          `Pattern rule ${rule.id} skips unreadable ${requested}`
+        );
+        continue;
+      }
+      checked.push(file);
+      if (regex.test(content) === !rule.forbid) continue;
+      violations.push(...this.findViolations(rule, content, file));
+    }
+
+    const passed = violations.length === 0;
+    return {
+      passed,
+      message:
+        rule.message ||
+        (passed
+          ? `Pattern ${rule.pattern} checked in ${checked.length} files`
+          : `Pattern ${rule.pattern} violated in ${new Set(violations.map(violation => violation.file)).size} of ${checked.length} files`),
+      score: passed ? 1 : 0,
+      violations,
+      data: { pattern: rule.pattern, target: rule.target, files: checked },
+    };
+  }
+
+  /**
+   * Violations of a failed pattern rule in one file or value: every match
+   * of a forbidden pattern, or the whole text for a missing required one
+   */
+  private findViolations(
+    rule: PatternRuleType,
+    text: string,
+    file?: string
+  ): ViolationType[] {
+    const base = {
+      ruleId: rule.id,
+      severity:
+        rule.enforcement === 'hard' ? ('error' as const) : ('warning' as const),
+      ...(file !== undefined && { file }),
+      ...(rule.fix !== undefined && { fix: rule.fix }),
+    };
+    if (!rule.forbid) {
+      return [
+        {
+          ...base,
+          message: rule.message || `Required pattern ${rule.pattern} not found`,
+        },
+      ];
+    }
+
+    const lines = text.split('\n');
+    const violations: ViolationType[] = [];
+    for (const match of text.matchAll(new RegExp(rule.pattern, 'g'))) {
+      if (violations.length >= MAX_VIOLATIONS) break;
+      const start = toLocation(text, match.index);
+      violations.push({
+        ...base,
+        message: rule.message || `Forbidden pattern ${rule.pattern} found`,
+        range: {
+          start,
+          end: toLocation(text, match.index + match[0].length),
+        },
+        snippet: lines[start.line - 1]?.trim(),
+      });
+    }
+    return violations;
+  }
+
   private extractValue(input: unknown, path: string): unknown {
     if (!input || typeof input !== 'object') {
       return undefined;
@@ -268,9 +409,14 @@ export class PatternRuleExecutor implements IRuleExecutor<PatternRuleType> {
 export class AIRuleExecutor implements IRuleExecutor<AIRuleType> {
   readonly ruleType = 'ai' as const;
   private readonly logger: ILogger;
+  private readonly providers: IAiAgentProviderRegistry;
 
-  constructor(logger: ILogger) {
+  constructor(
+    logger: ILogger,
+    providers: IAiAgentProviderRegistry = createAiAgentProviderRegistry()
+  ) {
     this.logger = logger;
+    this.providers = providers;
   }
 
   canExecute(rule: SupervisorRuleType): rule is AIRuleType {
@@ -303,25 +449,65 @@ export class AIRuleExecutor implements IRuleExecutor<AIRuleType> {
     }
   }
 
-  async executeRule(rule: AIRuleType, input: unknown): Promise<RuleResultType> {
+  async executeRule(
+    rule: AIRuleType,
+    input: unknown,
+    signal?: AbortSignal
+  ): Promise<RuleResultType> {
     try {
       await this.validateRule(rule);
 
       this.logger.debug(`Executing AI rule: ${rule.id}`);
 
-      // For now, this is a placeholder implementation
-      // In a real implementation, this would integrate with an AI service
-      this.logger.warn(`AI rule execution not yet implemented: ${rule.id}`);
+      const provider = this.providers.resolve(rule.agent);
+      if (!provider) {
+        throw new RuleExecutionError(
+          `No AI agent provider for agent '${rule.agent}'. Available: ${this.providers.list().join(', ')}. Set SUPERVISOR_AI_BASE_URL or SUPERVISOR_AI_API_KEY to enable the OpenAI-compatible provider.`,
+          rule.id,
+          { agent: rule.agent }
+        );
+      }
+
+      const content = this.resolveTargetContent(input, rule.target);
+      if (content === undefined) {
+        throw new RuleExecutionError(
+          `Target '${rule.target}' not found in execution context`,
+          rule.id,
+          { target: rule.target }
+        );
+      }
+
+      const verdict = await provider.evaluate({
+        ruleId: rule.id,
+        agent: rule.agent,
+        strategy: rule.strategy,
+        instruction: rule.instruction,
+        target: rule.target,
+        content,
+        refactorAllowed: rule.refactorAllowed ?? false,
+        signal,
+      });
+
+      const refactoredContent =
+        rule.strategy === 'refactor' && rule.refactorAllowed
+          ? verdict.refactoredContent
+          : undefined;
 
       return {
-        passed: false,
-        message: `AI rule '${rule.id}' execution not yet implemented`,
-        score: 0,
+        passed: verdict.passed,
+        message: verdict.passed
+          ? verdict.message
+          : rule.message || verdict.message,
+        score: verdict.score ?? (verdict.passed ? 1 : 0),
         data: {
           agent: rule.agent,
+          provider: provider.name,
           strategy: rule.strategy,
           instruction: rule.instruction,
           target: rule.target,
+          explanation: verdict.message,
+          suggestions: verdict.suggestions,
+          ...(refactoredContent !== undefined && { refactoredContent }),
         },
       };
     } catch (error: unknown) {
@@ -341,6 +527,43 @@ export class AIRuleExecutor implements IRuleExecutor<AIRuleType> {
       );
     }
   }
+
+  /**
+   * Resolve the content to analyze: a dotted path into the execution
+   * context (e.g. `code`), falling back to `metadata.<target>` (e.g. `plan`)
+   */
+  private resolveTargetContent(
+    input: unknown,
+    target: string
+  ): string | undefined {
+    const context = (input ?? {}) as Partial<RuleExecutionContextType>;
+    const value =
+      this.extractValue(context, target) ??
+      this.extractValue(context.metadata, target);
+
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  }
+
+  private extractValue(input: unknown, path: string): unknown {
+    if (!input || typeof input !== 'object') {
+      return undefined;
+    }
+
+    const keys = path.split('.');
+    let current: any = input;
+
+    for (const key of keys) {
+      if (current === null || current === undefined) {
+        return undefined;
+      }
+      current = current[key];
+    }
+
+    return current;
+  }
 }
 
 /**
@@ -376,7 +599,8 @@ export class PluginRuleExecutor implements IRuleExecutor<PluginRuleType> {
 
   async executeRule(
     rule: PluginRuleType,
-    input: unknown
+    input: unknown,
+    signal?: AbortSignal
   ): Promise<RuleResultType> {
     try {
       await this.validateRule(rule);
@@ -387,7 +611,8 @@ export class PluginRuleExecutor implements IRuleExecutor<PluginRuleType> {
       const result = await this.pluginManager.executePlugin(
         rule.plugin,
         input,
-        rule as any // Plugin config can be flexible
+        rule as any, // Plugin config can be flexible
+        signal
       );
 
       // Add plugin metadata to the result
@@ -418,6 +643,567 @@ export class PluginRuleExecutor implements IRuleExecutor<PluginRuleType> {
   }
 }
 
+/**
+ * Commit message rule executor
+ * Validates commit messages from context metadata or the local git history
+ */
+export class CommitMessageRuleExecutor
+  implements IRuleExecutor<CommitMessageRuleType>
+{
+  readonly ruleType = 'commit-message' as const;
+  private readonly logger: ILogger;
+
+  constructor(logger: ILogger) {
+    this.logger = logger;
+  }
+
+  canExecute(rule: SupervisorRuleType): rule is CommitMessageRuleType {
+    return rule.type === 'commit-message';
+  }
+
+  async validateRule(rule: CommitMessageRuleType): Promise<void> {
+    if (!rule.pattern) {
+      throw new RuleValidationError(
+        'Pattern is required for commit message rules',
+        rule.id
+      );
+    }
+
+    try {
+      new RegExp(rule.pattern);
+    } catch {
+      throw new RuleValidationError(
+        `Invalid regex pattern: ${rule.pattern}`,
+        rule.id,
+        { pattern: rule.pattern }
+      );
+    }
+  }
+
+  async executeRule(
+    rule: CommitMessageRuleType,
+    input: unknown
+  ): Promise<RuleResultType> {
+    try {
+      await this.validateRule(rule);
+
+      this.logger.debug(`Executing commit message rule: ${rule.id}`);
+
+      const context = (input ?? {}) as Partial<RuleExecutionContextType>;
+      const { commits, source } = await this.collectCommits(context);
+
+      if (commits.length === 0) {
+        return {
+          passed: true,
+          message: 'No commits to validate',
+          score: 1,
+          data: { pattern: rule.pattern, source, commits: [], violations: [] },
+        };
+      }
+
+      const regex = new RegExp(rule.pattern);
+      const evaluated = commits.map(commit => ({
+        hash: commit.hash,
+        subject: commit.message.split('\n')[0] ?? '',
+        passed: regex.test(commit.message),
+      }));
+      const violations = evaluated
+        .filter(commit => !commit.passed)
+        .map(commit => ({
+          hash: commit.hash,
+          subject: commit.subject,
+          message:
+            rule.message ||
+            `Commit message does not match pattern ${rule.pattern}`,
+        }));
+      const passed = violations.length === 0;
+
+      return {
+        passed,
+        message: passed
+          ? `All ${commits.length} commit message(s) are valid`
+          : rule.message ||
+            `${violations.length} of ${commits.length} commit message(s) do not match pattern ${rule.pattern}`,
+        score: (commits.length - violations.length) / commits.length,
+        data: {
+          pattern: rule.pattern,
+          source,
+          commits: evaluated,
+          violations,
+        },
+      };
+    } catch (error: unknown) {
+      if (
+        error instanceof RuleExecutionError ||
+        error instanceof RuleValidationError
+      ) {
+        throw error;
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new RuleExecutionError(
+        `Commit message rule execution failed: ${errorMessage}`,
+        rule.id,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Resolve the commits to check, in order of precedence:
+   * an explicit `metadata.commitMessage`, a `metadata.commitRange`,
+   * or the HEAD commit of the workspace repository.
+   */
+  private async collectCommits(
+    context: Partial<RuleExecutionContextType>
+  ): Promise<{ commits: GitCommit[]; source: string }> {
+    const commitMessage = context.metadata?.commitMessage;
+    if (typeof commitMessage === 'string') {
+      return {
+        commits: [{ hash: '', message: commitMessage.trim() }],
+        source: 'metadata',
+      };
+    }
+
+    const workspaceRoot = context.workspaceRoot || process.cwd();
+    const commitRange = context.metadata?.commitRange;
+    const range = typeof commitRange === 'string' ? commitRange : undefined;
+
+    const commits = await readCommits(workspaceRoot, range);
+    return { commits, source: range ? `git:${range}` : 'git:HEAD' };
+  }
+}
+
+/**
+ * Structure rule executor
+ * Checks required and forbidden paths against the workspace file tree
+ */
+export class StructureRuleExecutor implements IRuleExecutor<StructureRuleType> {
+  readonly ruleType = 'structure' as const;
+  private readonly logger: ILogger;
+
+  constructor(logger: ILogger) {
+    this.logger = logger;
+  }
+
+  canExecute(rule: SupervisorRuleType): rule is StructureRuleType {
+    return rule.type === 'structure';
+  }
+
+  async validateRule(rule: StructureRuleType): Promise<void> {
+    const declaredPaths =
+      rule.requiredFiles.length +
+      (rule.requiredDirectories?.length ?? 0) +
+      (rule.forbiddenPaths?.length ?? 0);
+
+    if (declaredPaths === 0) {
+      throw new RuleValidationError(
+        'Structure rules must declare at least one required or forbidden path',
+        rule.id
+      );
+    }
+  }
+
+  async executeRule(
+    rule: StructureRuleType,
+    input: unknown
+  ): Promise<RuleResultType> {
+    try {
+      await this.validateRule(rule);
+
+      this.logger.debug(`Executing structure rule: ${rule.id}`);
+
+      const context = (input ?? {}) as Partial<RuleExecutionContextType>;
+      const tree = await this.loadFileTree(context);
+      const allPaths = [...tree.files, ...tree.directories];
+
+      // Without `forEach` the workspace root is the only base directory
+      const baseDirectories = rule.forEach
+        ? matchPaths(tree.directories, rule.forEach)
+        : [''];
+      const resolve = (base: string, path: string): string =>
+        base ? `${base}/${normalizeRelativePath(path)}` : path;
+
+      const missingFiles: string[] = [];
+      const missingDirs: string[] = [];
+      const forbiddenFound: string[] = [];
+
+      for (const base of baseDirectories) {
+        for (const file of rule.requiredFiles) {
+          const path = resolve(base, file);
+          if (matchPaths(tree.files, path).length === 0) {
+            missingFiles.push(normalizeRelativePath(path));
+          }
+        }
+        for (const dir of rule.requiredDirectories ?? []) {
+          const path = resolve(base, dir);
+          if (matchPaths(tree.directories, path).length === 0) {
+            missingDirs.push(normalizeRelativePath(path));
+          }
+        }
+        for (const forbidden of rule.forbiddenPaths ?? []) {
+          forbiddenFound.push(
+            ...matchPaths(allPaths, resolve(base, forbidden))
+          );
+        }
+      }
+
+      const problems = [...missingFiles, ...missingDirs];
+      const passed = problems.length === 0 && forbiddenFound.length === 0;
+      const details = [
+        problems.length > 0 ? `Missing: ${problems.join(', ')}` : '',
+        forbiddenFound.length > 0
+          ? `Forbidden: ${forbiddenFound.join(', ')}`
+          : '',
+      ].filter(Boolean);
+
+      return {
+        passed,
+        message: passed
+          ? 'Structure is valid'
+          : rule.message || details.join('; '),
+        score: passed ? 1 : 0,
+        data: {
+          missingFiles,
+          missingDirs,
+          forbiddenFound,
+          checkedDirectories: baseDirectories.map(base => base || '.'),
+        },
+      };
+    } catch (error: unknown) {
+      if (
+        error instanceof RuleExecutionError ||
+        error instanceof RuleValidationError
+      ) {
+        throw error;
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new RuleExecutionError(
+        `Structure rule execution failed: ${errorMessage}`,
+        rule.id,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Use a file tree supplied in `metadata.fileTree` (e.g. by a remote
+   * client) or read it from the workspace root on disk.
+   */
+  private async loadFileTree(
+    context: Partial<RuleExecutionContextType>
+  ): Promise<FileTree> {
+    const fileTree = context.metadata?.fileTree;
+    if (fileTree && typeof fileTree === 'object') {
+      const toPaths = (value: unknown): string[] =>
+        Array.isArray(value)
+          ? value
+              .filter((path): path is string => typeof path === 'string')
+              .map(normalizeRelativePath)
+          : [];
+      return {
+        files: toPaths(fileTree.files),
+        directories: toPaths(fileTree.directories),
+      };
+    }
+
+    return readFileTree(context.workspaceRoot || process.cwd());
+  }
+}
+
+/**
+ * Security posture rule executor
+ * Runs one or more named offline checks from the security check registry
+ */
+export class SecurityPostureRuleExecutor
+  implements IRuleExecutor<SecurityPostureRuleType>
+{
+  readonly ruleType = 'security-posture' as const;
+  private readonly logger: ILogger;
+  private readonly checks: ISecurityCheckRegistry;
+
+  constructor(
+    logger: ILogger,
+    checks: ISecurityCheckRegistry = createSecurityCheckRegistry()
+  ) {
+    this.logger = logger;
+    this.checks = checks;
+  }
+
+  canExecute(rule: SupervisorRuleType): rule is SecurityPostureRuleType {
+    return rule.type === 'security-posture';
+  }
+
+  async validateRule(rule: SecurityPostureRuleType): Promise<void> {
+    const unknownChecks = this.resolveCheckNames(rule).filter(
+      name => !this.checks.has(name)
+    );
+
+    if (unknownChecks.length > 0) {
+      throw new RuleValidationError(
+        `Unknown security check(s): ${unknownChecks.join(', ')}. Available: ${this.checks.list().join(', ')}`,
+        rule.id,
+        { check: rule.check }
+      );
+    }
+  }
+
+  async executeRule(
+    rule: SecurityPostureRuleType,
+    input: unknown
+  ): Promise<RuleResultType> {
+    try {
+      await this.validateRule(rule);
+
+      this.logger.debug(`Executing security posture rule: ${rule.id}`);
+
+      const context = (input ?? {}) as Partial<RuleExecutionContextType>;
+      const workspaceRoot = context.workspaceRoot || process.cwd();
+      const checkNames = this.resolveCheckNames(rule);
+
+      const findings: SecurityFinding[] = [];
+      for (const name of checkNames) {
+        const check = this.checks.get(name);
+        if (check) {
+          findings.push(...(await check.run(workspaceRoot)));
+        }
+      }
+
+      const passed = findings.length === 0;
+      return {
+        passed,
+        message: passed
+          ? `Security posture check passed: ${checkNames.join(', ')}`
+          : rule.message ||
+            `${findings.length} security finding(s) from: ${checkNames.join(', ')}`,
+        score: passed ? 1 : 0,
+        data: { checks: checkNames, findings },
+      };
+    } catch (error: unknown) {
+      if (
+        error instanceof RuleExecutionError ||
+        error instanceof RuleValidationError
+      ) {
+        throw error;
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new RuleExecutionError(
+        `Security posture rule execution failed: ${errorMessage}`,
+        rule.id,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * `check` is a single name, a comma-separated list, or `all`
+   */
+  private resolveCheckNames(rule: SecurityPostureRuleType): string[] {
+    if (rule.check.trim() === 'all') {
+      return this.checks.list();
+    }
+    return rule.check
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => name.length > 0);
+  }
+}
+
+/**
+ * Runs a rule by id through the rule engine
+ */
+export type RuleRunner = (
+  ruleId: string,
+  context: RuleExecutionContext,
+  signal?: AbortSignal
+) => Promise<RuleExecutionResult>;
+
+/**
+ * Whether a composite child counts as passed. A waived failure counts as
+ * passed, the same way it does not block the phase or dependent rules.
+ */
+const childPassed = (child: RuleExecutionResult): boolean =>
+  child.passed || child.status === 'waived';
+
+/**
+ * Composite rule executor
+ * Combines the results of other rules executed through the rule engine
+ */
+export class CompositeRuleExecutor implements IRuleExecutor<CompositeRuleType> {
+  readonly ruleType = 'composite' as const;
+  private readonly logger: ILogger;
+  private readonly runRule: RuleRunner;
+
+  constructor(logger: ILogger, runRule: RuleRunner) {
+    this.logger = logger;
+    this.runRule = runRule;
+  }
+
+  canExecute(rule: SupervisorRuleType): rule is CompositeRuleType {
+    return rule.type === 'composite';
+  }
+
+  async validateRule(rule: CompositeRuleType): Promise<void> {
+    if (rule.rules.length === 0) {
+      throw new RuleValidationError(
+        'Composite rules must reference at least one rule',
+        rule.id
+      );
+    }
+
+    if (rule.rules.includes(rule.id)) {
+      throw new RuleValidationError(
+        'Composite rule cannot reference itself',
+        rule.id
+      );
+    }
+
+    if (
+      rule.operator === 'atLeast' &&
+      (rule.count === undefined || rule.count > rule.rules.length)
+    ) {
+      throw new RuleValidationError(
+        `Operator 'atLeast' requires a count between 1 and ${rule.rules.length}`,
+        rule.id,
+        { count: rule.count }
+      );
+    }
+
+    if (rule.operator === 'weighted' && rule.threshold === undefined) {
+      throw new RuleValidationError(
+        "Operator 'weighted' requires a threshold",
+        rule.id
+      );
+    }
+  }
+
+  async executeRule(
+    rule: CompositeRuleType,
+    input: unknown,
+    signal?: AbortSignal
+  ): Promise<RuleResultType> {
+    try {
+      await this.validateRule(rule);
+
+      this.logger.debug(`Executing composite rule: ${rule.id}`);
+
+      const context = input as RuleExecutionContext;
+      const children = await Promise.all(
+        rule.rules.map(ruleId => this.runChild(ruleId, context, signal))
+      );
+
+      // Children skipped by their own conditions do not take part
+      const evaluated = children.filter(child => child.status !== 'skipped');
+      const passedCount = evaluated.filter(childPassed).length;
+      const { passed, score } = this.combine(rule, evaluated, passedCount);
+
+      return {
+        passed,
+        message: passed
+          ? `Composite ${rule.operator}: ${passedCount}/${evaluated.length} child rules passed`
+          : rule.message ||
+            `Composite ${rule.operator}: ${passedCount}/${evaluated.length} child rules passed`,
+        score,
+        data: {
+          operator: rule.operator,
+          passedCount,
+          evaluatedCount: evaluated.length,
+          children,
+        },
+      };
+    } catch (error: unknown) {
+      if (
+        error instanceof RuleExecutionError ||
+        error instanceof RuleValidationError
+      ) {
+        throw error;
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new RuleExecutionError(
+        `Composite rule execution failed: ${errorMessage}`,
+        rule.id,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Run a child rule; execution errors count as a failed child
+   */
+  private async runChild(
+    ruleId: string,
+    context: RuleExecutionContext,
+    signal?: AbortSignal
+  ): Promise<RuleExecutionResult> {
+    try {
+      return await this.runRule(ruleId, context, signal);
+    } catch (error: unknown) {
+      if (error instanceof RuleExecutionError && error.context?.result) {
+        return error.context.result as RuleExecutionResult;
+      }
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      return {
+        ruleId,
+        ruleType: 'unknown',
+        enforcement: 'soft',
+        status: 'errored',
+        passed: false,
+        message: `Rule execution failed: ${errorMessage}`,
+        executionTime: 0,
+        data: { error: errorMessage },
+      };
+    }
+  }
+
+  private combine(
+    rule: CompositeRuleType,
+    evaluated: RuleExecutionResult[],
+    passedCount: number
+  ): { passed: boolean; score: number } {
+    const total = evaluated.length;
+    const ratio = total === 0 ? 1 : passedCount / total;
+
+    switch (rule.operator) {
+      case 'all':
+        return { passed: passedCount === total, score: ratio };
+      case 'any':
+        return { passed: passedCount > 0, score: passedCount > 0 ? 1 : 0 };
+      case 'none':
+        return { passed: passedCount === 0, score: 1 - ratio };
+      case 'atLeast': {
+        const count = rule.count ?? total;
+        return {
+          passed: passedCount >= count,
+          score: Math.min(1, passedCount / count),
+        };
+      }
+      case 'weighted': {
+        let weightSum = 0;
+        let weightedScore = 0;
+        for (const child of evaluated) {
+          const weight = rule.weights?.[child.ruleId] ?? 1;
+          weightSum += weight;
+          const childScore =
+            child.status === 'waived'
+              ? 1
+              : (child.score ?? (child.passed ? 1 : 0));
+          weightedScore += weight * childScore;
+        }
+        const score = weightSum === 0 ? 0 : weightedScore / weightSum;
+        return { passed: score >= (rule.threshold ?? 1), score };
+      }
+    }
+  }
+}
+
 /**
  * Rule executor factory implementation
  */
@@ -427,15 +1213,20 @@ export class RuleExecutorFactory implements IRuleExecutorFactory {
 
   constructor(
     @inject(TYPES.Logger) logger: ILogger,
-    @inject(TYPES.PluginManager) pluginManager: IPluginManager
+    @inject(TYPES.PluginManager) pluginManager: IPluginManager,
+    @inject(TYPES.AiAgentProviderRegistry)
+    aiProviders: IAiAgentProviderRegistry
   ) {
     this.logger = logger;
 
     // Register built-in executors
     this.registerExecutor(new ThresholdRuleExecutor(logger));
     this.registerExecutor(new PatternRuleExecutor(logger));
-    this.registerExecutor(new AIRuleExecutor(logger));
+    this.registerExecutor(new AIRuleExecutor(logger, aiProviders));
     this.registerExecutor(new PluginRuleExecutor(logger, pluginManager));
+    this.registerExecutor(new CommitMessageRuleExecutor(logger));
+    this.registerExecutor(new StructureRuleExecutor(logger));
+    this.registerExecutor(new SecurityPostureRuleExecutor(logger));
   }
 
   createExecutor(ruleType: SupervisorRuleType['type']): IRuleExecutor {
@@ -0,0 +1,219 @@
+/**
+ * Rule result cache
+ * Reuses rule results when neither the rule definition nor the inputs it
+ * reads changed: an in-memory LRU in front of one file per entry in the
+ * workspace's .mcp directory
+ */
+
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import { isAbsolute, join, resolve } from 'path';
+import type { ILogger } from '../interfaces/ILogger';
+import type {
+  IRuleResultCache,
+  RuleResultCacheStats,
+} from '../interfaces/IRuleResultCache';
+import type {
+  RuleExecutionContext,
+  RuleExecutionResult,
+  SupervisorRuleType,
+} from '../schemas/RuleEngineSchemas';
+import { stableStringify } from '../../utils/utils';
+
+// Where results are kept, relative to the workspace root
+export const RULE_CACHE_DIR = '.mcp/rule-cache';
+const FINGERPRINT_FILE = 'fingerprint';
+const DEFAULT_MAX_ENTRIES = 500;
+
+// Rules that read the repository or git history rather than the context,
+// and composites, whose children are cached on their own
+const UNCACHEABLE_RULE_TYPES = new Set<SupervisorRuleType['type']>([
+  'commit-message',
+  'security-posture',
+  'structure',
+  'composite',
+]);
+
+const sha256 = (value: string): string =>
+  createHash('sha256').update(value).digest('hex');
+
+/**
+ * Whether a rule's result only depends on its definition and the context
+ */
+export function isCacheableRule(rule: SupervisorRuleType): boolean {
+  return rule.cache !== false && !UNCACHEABLE_RULE_TYPES.has(rule.type);
+}
+
+/**
+ * Key of a rule run: the rule definition plus the context inputs rules
+ * read (workspace root, target, code, metrics, metadata and the contents
+ * of the changed files). The root keeps workspaces sharing the cache
+ * apart; the phase and the acting user are left out so results carry over
+ * between phases and agents.
+ */
+export async function computeRuleCacheKey(
+  rule: SupervisorRuleType,
+  context: RuleExecutionContext
+): Promise<string> {
+  const root = context.workspaceRoot ?? process.cwd();
+  const files = await Promise.all(
+    (context.files ?? []).map(async file => {
+      try {
+        const content = await fs.readFile(
+          isAbsolute(file) ? file : join(root, file)
+        );
+        return [file, createHash('sha256').update(content).digest('hex')];
+      } catch {
+        return [file, null];
+      }
+    })
+  );
+  const metadata = { ...context.metadata };
+  delete metadata.user;
+
+  return sha256(
+    stableStringify({
+      rule,
+      workspaceRoot: resolve(root),
+      target: context.target,
+      code: context.code,
+      metrics: context.metrics,
+      metadata,
+      input: (context as Record<string, unknown>).input,
+      files,
+    })
+  );
+}
+
+export class RuleResultCache implements IRuleResultCache {
+  private readonly memory = new Map<string, RuleExecutionResult>();
+  private hits = 0;
+  private misses = 0;
+  // Last fingerprint compared with the one on disk; rules running at once
+  // share its comparison, so only the first one clears the cache
+  private synced: { fingerprint: string; done: Promise<void> } | null = null;
+
+  constructor(
+    private readonly directory: string,
+    private readonly logger: ILogger,
+    private readonly maxEntries = DEFAULT_MAX_ENTRIES
+  ) {}
+
+  async get(key: string): Promise<RuleExecutionResult | null> {
+    let result = this.memory.get(key) ?? null;
+    if (result) {
+      // Move to the most recently used end
+      this.memory.delete(key);
+    } else {
+      result = await this.readEntry(key);
+    }
+
+    if (!result) {
+      this.misses++;
+      return null;
+    }
+    this.hits++;
+    this.remember(key, result);
+    return result;
+  }
+
+  async set(key: string, result: RuleExecutionResult): Promise<void> {
+    this.remember(key, result);
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.entryPath(key), JSON.stringify(result), 'utf-8');
+    } catch (error) {
+      // The memory layer still works without a writable workspace
+      this.logger.warn(`Failed to write rule cache entry: ${error}`);
+    }
+  }
+
+  async syncFingerprint(fingerprint: string): Promise<void> {
+    if (this.synced?.fingerprint !== fingerprint) {
+      const previous = this.synced?.done.catch(() => {});
+      const done = Promise.resolve(previous).then(() =>
+        this.compareFingerprint(fingerprint)
+      );
+      this.synced = { fingerprint, done };
+      // Compare again next time rather than keep failing
+      done.catch(() => {
+        if (this.synced?.done === done) this.synced = null;
+      });
+    }
+    return this.synced.done;
+  }
+
+  async clear(): Promise<void> {
+    // The fingerprint file goes too, so it is written again on next sync
+    this.synced = null;
+    await this.removeEntries();
+  }
+
+  private async compareFingerprint(fingerprint: string): Promise<void> {
+    const path = join(this.directory, FINGERPRINT_FILE);
+    let stored: string | null = null;
+    try {
+      stored = await fs.readFile(path, 'utf-8');
+    } catch {
+      // No fingerprint yet
+    }
+    if (stored === fingerprint) return;
+
+    if (stored !== null) {
+      this.logger.info('Configuration or plugins changed; clearing rule cache');
+    }
+    await this.removeEntries();
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(path, fingerprint, 'utf-8');
+    } catch (error) {
+      this.logger.warn(`Failed to write rule cache fingerprint: ${error}`);
+    }
+  }
+
+  private async removeEntries(): Promise<void> {
+    this.memory.clear();
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  async getStats(): Promise<RuleResultCacheStats> {
+    const lookups = this.hits + this.misses;
+    let diskEntries = 0;
+    try {
+      diskEntries = (await fs.readdir(this.directory)).filter(file =>
+        file.endsWith('.json')
+      ).length;
+    } catch {
+      // Nothing written yet
+    }
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      entries: this.memory.size,
+      diskEntries,
+    };
+  }
+
+  private remember(key: string, result: RuleExecutionResult): void {
+    this.memory.delete(key);
+    this.memory.set(key, result);
+    while (this.memory.size > this.maxEntries) {
+      const oldest = this.memory.keys().next().value;
+      if (oldest === undefined) break;
+      this.memory.delete(oldest);
+    }
+  }
+
+  private async readEntry(key: string): Promise<RuleExecutionResult | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.entryPath(key), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private entryPath(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Rule waivers
+ * Finds the configured waivers that accept a rule's failure in an
+ * execution context
+ */
+
+import type {
+  RuleExecutionContextType,
+  WaiverType,
+} from '../schemas/RuleEngineSchemas';
+import { matchPaths } from '../../utils/glob';
+
+export interface MatchedWaiver extends WaiverType {
+  id: string;
+}
+
+export interface WaiverMatches {
+  // Waivers in scope that have not expired yet
+  active: MatchedWaiver[];
+  // Waivers in scope whose expiry has passed
+  expired: MatchedWaiver[];
+}
+
+const toList = <T>(value: T | T[]): T[] =>
+  Array.isArray(value) ? value : [value];
+
+function matchesValue(
+  actual: unknown,
+  expected: string | string[],
+  glob: boolean
+): boolean {
+  if (typeof actual !== 'string') return false;
+  return toList(expected).some(value =>
+    glob ? matchPaths([actual], value).length > 0 : value === actual
+  );
+}
+
+/**
+ * Whether every clause of a waiver's scope holds for the context.
+ * A file scope only matches when the context lists its changed files and
+ * all of them fall under the waiver's globs.
+ */
+export function waiverInScope(
+  waiver: WaiverType,
+  context: RuleExecutionContextType
+): boolean {
+  const { branch, files, ticket } = waiver.scope;
+
+  if (
+    branch !== undefined &&
+    !matchesValue(context.metadata?.branch, branch, true)
+  ) {
+    return false;
+  }
+  if (
+    ticket !== undefined &&
+    !matchesValue(context.metadata?.ticket, ticket, false)
+  ) {
+    return false;
+  }
+  if (files !== undefined) {
+    const changed = context.files ?? [];
+    if (
+      changed.length === 0 ||
+      !changed.every(file => matchesValue(file, files, true))
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a waiver has expired. A date-only expiry is the last day the
+ * waiver applies, so it ends at the following midnight UTC.
+ */
+export function isWaiverExpired(waiver: WaiverType, now: Date): boolean {
+  const end =
+    Date.parse(waiver.expires) + (DATE_ONLY.test(waiver.expires) ? DAY_MS : 0);
+  return end <= now.getTime();
+}
+
+/**
+ * Find the waivers for a rule whose scope matches the context
+ */
+export function findWaivers(
+  waivers: Record<string, WaiverType> | undefined,
+  ruleId: string,
+  context: RuleExecutionContextType,
+  now: Date = new Date()
+): WaiverMatches {
+  const matches: WaiverMatches = { active: [], expired: [] };
+  for (const [id, waiver] of Object.entries(waivers ?? {})) {
+    if (waiver.rule !== ruleId || !waiverInScope(waiver, context)) continue;
+    (isWaiverExpired(waiver, now) ? matches.expired : matches.active).push({
+      id,
+      ...waiver,
+    });
+  }
+  return matches;
+}
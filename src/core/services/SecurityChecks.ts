@@ -0,0 +1,311 @@
+/**
+ * Offline security posture checks
+ * Each check inspects the workspace on disk and reports findings with file and line
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import { basename, join } from 'path';
+import { runGit } from '../../utils/git';
+import { readFileTree } from '../../utils/glob';
+
+/**
+ * A single problem reported by a security check
+ */
+export interface SecurityFinding {
+  check: string;
+  file: string;
+  line?: number;
+  severity: 'low' | 'medium' | 'high';
+  message: string;
+}
+
+/**
+ * Security check interface
+ */
+export interface ISecurityCheck {
+  readonly name: string;
+  readonly description: string;
+  run(workspaceRoot: string): Promise<SecurityFinding[]>;
+}
+
+/**
+ * Security check registry interface
+ */
+export interface ISecurityCheckRegistry {
+  register(check: ISecurityCheck): void;
+  get(name: string): ISecurityCheck | undefined;
+  has(name: string): boolean;
+  list(): string[];
+}
+
+// Files larger than this are not scanned for secrets
+const MAX_SCANNED_FILE_SIZE = 1024 * 1024;
+
+const LOCKFILES = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lock',
+  'bun.lockb',
+];
+
+const INSTALL_SCRIPTS = ['preinstall', 'install', 'postinstall'];
+
+const SECRET_PATTERNS: Array<{ name: string; regex: RegExp }> = [
+  { name: 'AWS access key', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  {
+    name: 'private key',
+    regex: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP )?PRIVATE KEY/,
+  },
+  { name: 'GitHub token', regex: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/ },
+  { name: 'Slack token', regex: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/ },
+];
+
+// Credential-looking assignments; the value must also look random
+const SECRET_ASSIGNMENT =
+  /(?:api[_-]?key|secret|password|passwd|token|access[_-]?key)\w*["']?\s*[:=]\s*["']([^"'\s]{12,})["']/i;
+const MIN_SECRET_ENTROPY = 3.5;
+
+/**
+ * Shannon entropy in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * List files tracked by git, falling back to every file on disk
+ * when the workspace is not a git repository.
+ */
+async function listTrackedFiles(workspaceRoot: string): Promise<string[]> {
+  try {
+    const output = await runGit(workspaceRoot, ['ls-files', '-z']);
+    return output.split('\0').filter(file => file.length > 0);
+  } catch {
+    return (await readFileTree(workspaceRoot)).files;
+  }
+}
+
+/**
+ * Scans tracked files for known token formats and high-entropy credentials
+ */
+export class SecretsCheck implements ISecurityCheck {
+  readonly name = 'secrets';
+  readonly description =
+    'Committed secrets detected by known token patterns and entropy';
+
+  async run(workspaceRoot: string): Promise<SecurityFinding[]> {
+    const findings: SecurityFinding[] = [];
+
+    for (const file of await listTrackedFiles(workspaceRoot)) {
+      if (LOCKFILES.includes(basename(file))) continue;
+
+      const fullPath = join(workspaceRoot, file);
+      const stats = await fs.stat(fullPath).catch(() => null);
+      if (!stats?.isFile() || stats.size > MAX_SCANNED_FILE_SIZE) continue;
+
+      const content = await fs.readFile(fullPath, 'utf-8');
+      // Skip binary content
+      if (content.includes('\0')) continue;
+
+      content.split('\n').forEach((text, index) => {
+        const known = SECRET_PATTERNS.find(({ regex }) => regex.test(text));
+        if (known) {
+          findings.push({
+            check: this.name,
+            file,
+            line: index + 1,
+            severity: 'high',
+            message: `Possible ${known.name} committed`,
+          });
+          return;
+        }
+
+        const assignment = SECRET_ASSIGNMENT.exec(text);
+        const value = assignment?.[1];
+        if (value && shannonEntropy(value) >= MIN_SECRET_ENTROPY) {
+          findings.push({
+            check: this.name,
+            file,
+            line: index + 1,
+            severity: 'high',
+            message: 'Possible hardcoded credential (high-entropy value)',
+          });
+        }
+      });
+    }
+
+    return findings;
+  }
+}
+
+/**
+ * Reports `.env` files tracked in git (templates such as `.env.example` are allowed)
+ */
+export class TrackedEnvFilesCheck implements ISecurityCheck {
+  readonly name = 'tracked-env-files';
+  readonly description = '.env files committed to the repository';
+
+  async run(workspaceRoot: string): Promise<SecurityFinding[]> {
+    let output: string;
+    try {
+      output = await runGit(workspaceRoot, ['ls-files', '-z']);
+    } catch {
+      // Nothing is tracked outside a git repository
+      return [];
+    }
+    return output
+      .split('\0')
+      .filter(file => /^\.env(\..+)?$/.test(basename(file)))
+      .filter(file => !/\.(example|sample|template)$/.test(file))
+      .map(file => ({
+        check: this.name,
+        file,
+        severity: 'high' as const,
+        message: 'Environment file is tracked in git',
+      }));
+  }
+}
+
+/**
+ * Reports files and directories writable by any user
+ */
+export class WorldWritableCheck implements ISecurityCheck {
+  readonly name = 'world-writable';
+  readonly description = 'Files or directories writable by any user';
+
+  async run(workspaceRoot: string): Promise<SecurityFinding[]> {
+    // POSIX permission bits are not meaningful on Windows
+    if (process.platform === 'win32') return [];
+
+    const tree = await readFileTree(workspaceRoot);
+    const findings: SecurityFinding[] = [];
+
+    for (const path of [...tree.directories, ...tree.files]) {
+      const stats = await fs.lstat(join(workspaceRoot, path));
+      if (!stats.isSymbolicLink() && (stats.mode & 0o002) !== 0) {
+        findings.push({
+          check: this.name,
+          file: path,
+          severity: 'medium',
+          message: `World-writable permissions (${(stats.mode & 0o777).toString(8)})`,
+        });
+      }
+    }
+
+    return findings;
+  }
+}
+
+/**
+ * Reports npm lifecycle scripts that run automatically on install
+ */
+export class InstallScriptsCheck implements ISecurityCheck {
+  readonly name = 'install-scripts';
+  readonly description = 'package.json scripts that run on install';
+
+  async run(workspaceRoot: string): Promise<SecurityFinding[]> {
+    const { files } = await readFileTree(workspaceRoot);
+    const findings: SecurityFinding[] = [];
+
+    for (const file of files.filter(f => basename(f) === 'package.json')) {
+      const content = await fs.readFile(join(workspaceRoot, file), 'utf-8');
+      let scripts: Record<string, unknown> = {};
+      try {
+        scripts = JSON.parse(content).scripts ?? {};
+      } catch {
+        continue;
+      }
+
+      const lines = content.split('\n');
+      for (const script of INSTALL_SCRIPTS) {
+        if (typeof scripts[script] !== 'string') continue;
+        const lineIndex = lines.findIndex(line => line.includes(`"${script}"`));
+        findings.push({
+          check: this.name,
+          file,
+          line: lineIndex >= 0 ? lineIndex + 1 : undefined,
+          severity: 'medium',
+          message: `'${script}' script runs on install: ${scripts[script]}`,
+        });
+      }
+    }
+
+    return findings;
+  }
+}
+
+/**
+ * Requires a dependency lockfile next to the root package.json
+ */
+export class LockfileCheck implements ISecurityCheck {
+  readonly name = 'lockfile';
+  readonly description = 'Dependency lockfile present for package.json';
+
+  async run(workspaceRoot: string): Promise<SecurityFinding[]> {
+    if (!existsSync(join(workspaceRoot, 'package.json'))) {
+      return [];
+    }
+
+    const hasLockfile = LOCKFILES.some(lockfile =>
+      existsSync(join(workspaceRoot, lockfile))
+    );
+    return hasLockfile
+      ? []
+      : [
+          {
+            check: this.name,
+            file: 'package.json',
+            severity: 'low',
+            message: `No lockfile found (expected one of: ${LOCKFILES.join(', ')})`,
+          },
+        ];
+  }
+}
+
+/**
+ * Security check registry implementation
+ */
+export class SecurityCheckRegistry implements ISecurityCheckRegistry {
+  private readonly checks = new Map<string, ISecurityCheck>();
+
+  register(check: ISecurityCheck): void {
+    this.checks.set(check.name, check);
+  }
+
+  get(name: string): ISecurityCheck | undefined {
+    return this.checks.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.checks.has(name);
+  }
+
+  list(): string[] {
+    return Array.from(this.checks.keys());
+  }
+}
+
+/**
+ * Create a registry populated with the built-in checks
+ */
+export function createSecurityCheckRegistry(): ISecurityCheckRegistry {
+  const registry = new SecurityCheckRegistry();
+  registry.register(new SecretsCheck());
+  registry.register(new TrackedEnvFilesCheck());
+  registry.register(new WorldWritableCheck());
+  registry.register(new InstallScriptsCheck());
+  registry.register(new LockfileCheck());
+  return registry;
+}
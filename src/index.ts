@@ -5,6 +5,9 @@ import { TYPES } from './config/types';
 import { IMcpWorkspaceSupervisor } from './core/interfaces/IMcpWorkspaceSupervisor';
 import { registerMcpResources } from './adapters/mcp/resources';
 import { registerMcpTools } from './adapters/mcp/tools';
+import { registerMcpSampling } from './adapters/mcp/sampling';
+import { registerConfigUpdates } from './adapters/mcp/configUpdates';
+import type { IAiAgentProviderRegistry } from './core/services/AiAgentProviders';
 import {
   TransportFactory,
   TransportType,
@@ -12,6 +15,24 @@ import {
 } from './adapters/transport/TransportFactory';
 import { ITransportAdapter } from './core/interfaces/ITransportAdapter';
 
+export { defineConfig } from './config/defineConfig';
+export type { ExtendingSupervisorConfig } from './config/defineConfig';
+export { lintConfig } from './core/services/ConfigDiagnostics';
+export {
+  CONFIG_VERSION,
+  migrateConfig,
+} from './core/services/ConfigMigrations';
+export type { ConfigMigration } from './core/services/ConfigMigrations';
+export { getAllowedTransitions } from './core/services/PhaseTransitionService';
+export type {
+  PhaseState,
+  PhaseTransitionResult,
+} from './core/interfaces/IPhaseTransitionService';
+export type {
+  ConfigDiagnostic,
+  LintConfigOptions,
+} from './core/services/ConfigDiagnostics';
+
 /**
  * Start the MCP server with the provided workspace Supervisor instance and transport
  * @param workspaceSupervisor - Initialized workspace Supervisor instance
@@ -42,8 +63,24 @@ export async function startMcpServer(
   registerMcpResources(server, workspaceSupervisor);
   registerMcpTools(server, workspaceSupervisor);
 
+  // Let AI rules use the connected client's model via sampling
+  registerMcpSampling(
+    server,
+    container.get<IAiAgentProviderRegistry>(TYPES.AiAgentProviderRegistry),
+    logger
+  );
+
+  // Reload .supervisorrc on change and notify subscribed clients
+  const configManager = workspaceSupervisor.getConfigManager?.();
+  if (configManager) {
+    registerConfigUpdates(server, configManager, logger);
+  }
+
   // Create and connect transport
-  const transport = TransportFactory.create(transportType, transportOptions);
+  const transport = TransportFactory.create(transportType, {
+    approvals: workspaceSupervisor.getApprovalService?.(),
+    ...transportOptions,
+  });
   await transport.connect(server);
 
   logger.info('MCP Server started and connected', {
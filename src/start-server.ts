@@ -4,23 +4,54 @@ import 'reflect-metadata';
 
 import path from 'path';
 import * as fs from 'fs';
+import { createInterface } from 'readline/promises';
 import { container } from './config/container';
 import { TYPES } from './config/types';
 import { IMcpWorkspaceSupervisor } from './core/interfaces/IMcpWorkspaceSupervisor';
 import { ILogger } from './core/interfaces/ILogger';
+import type { IConfigurationManager } from './core/services/ConfigurationManager';
 import { startMcpServer } from './index';
+import { CONFIG_FILE_NAMES } from './core/services/ConfigFormats';
+import {
+  detectProject,
+  type ProjectProfile,
+} from './core/services/ProjectDetection';
+import {
+  CONFIG_PRESETS,
+  buildInitialConfig,
+  type ConfigPreset,
+} from './config/presets';
+import {
+  generateConfigJsonSchema,
+  writeConfigJsonSchema,
+} from './core/schemas/ConfigJsonSchema';
 import {
   TransportType,
   TransportOptions,
 } from './adapters/transport/TransportFactory';
 
 export interface CliOptions {
+  // Subcommand to run instead of starting the server
+  command?: 'schema' | 'migrate' | 'init';
   workspacePath: string;
   transport: TransportType;
   port: number;
   host: string;
+  env?: string;
+  // File the `schema` command writes to; stdout when unset
+  output?: string;
+  // Show what `migrate` would change without writing
+  dryRun?: boolean;
+  // `init` preset; asked for interactively when unset
+  preset?: ConfigPreset;
+  // Accept the defaults instead of prompting (init command)
+  yes?: boolean;
+  // Replace an existing configuration (init command)
+  force?: boolean;
 }
 
+export type Prompt = (question: string) => Promise<string>;
+
 /**
  * Show help message
  */
@@ -29,21 +60,42 @@ export function showHelp(): void {
 MCP Workspace Supervisor Server
 
 Usage: npm run start:server [workspace_path] [options]
+       npm run start:server schema [--output <file>]
+       npm run start:server migrate [workspace_path] [--dry-run]
+       npm run start:server init [workspace_path] [--yes] [--preset <name>] [--force]
 
 Arguments:
   workspace_path          Path to the workspace to analyze (default: current directory)
 
+Commands:
+  schema                  Print the JSON Schema of .supervisorrc.json
+  migrate                 Upgrade the workspace configuration to the current version
+  init                    Create a .supervisorrc.json tailored to the detected project
+
 Options:
   --transport <type>      Transport type: stdio or http (default: stdio)
   --port <number>         Port for HTTP transport (default: 3000)
   --host <host>           Host for HTTP transport (default: localhost)
+  --env <name>            Configuration environment overlay (default: SUPERVISOR_ENV, then NODE_ENV)
+  --output <file>         Write the schema to a file instead of stdout (schema command)
+  --dry-run               Print the changes without writing them (migrate command)
+  --preset <name>         Rule preset: strict, balanced or minimal (init command)
+  --yes, -y               Use the defaults without prompting (init command)
+  --force                 Replace an existing configuration (init command)
   --help, -h              Show this help message
 
+Environment:
+  SUPERVISOR_APPROVAL_TOKEN  Bearer token for the HTTP approval endpoints, which are off without it
+
 Examples:
   npm run start:server                                    # Start with stdio transport
   npm run start:server /path/to/workspace                 # Specify workspace path
   npm run start:server --transport http --port 3000       # Start with HTTP transport
   npm run start:server /path/to/workspace --transport http # Workspace + HTTP transport
+  npm run start:server --env production                   # Apply the production overlay
+  npm run start:server schema --output .supervisor/config.schema.json
+  npm run start:server migrate --dry-run                  # Preview a config upgrade
+  npm run start:server init --yes --preset strict         # Scaffold a strict config
 	`);
 }
 
@@ -69,6 +121,13 @@ export function validatePort(portStr: string): number {
   return port;
 }
 
+/**
+ * Validate preset name
+ */
+export function isConfigPreset(preset: string): preset is ConfigPreset {
+  return (CONFIG_PRESETS as readonly string[]).includes(preset);
+}
+
 /**
  * Parse command line arguments
  */
@@ -111,6 +170,40 @@ export function parseArguments(
         throw new Error('Error: --host requires a value');
       }
       options.host = host;
+    } else if (arg === '--env') {
+      const env = args[++i];
+      if (!env) {
+        throw new Error('Error: --env requires a value');
+      }
+      options.env = env;
+    } else if (arg === '--output') {
+      const output = args[++i];
+      if (!output) {
+        throw new Error('Error: --output requires a value');
+      }
+      options.output = output;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--preset') {
+      const preset = args[++i];
+      if (!preset) {
+        throw new Error('Error: --preset requires a value');
+      }
+      if (!isConfigPreset(preset)) {
+        throw new Error(
+          `Error: Invalid preset '${preset}'. Must be one of: ${CONFIG_PRESETS.join(', ')}.`
+        );
+      }
+      options.preset = preset;
+    } else if (arg === '--yes' || arg === '-y') {
+      options.yes = true;
+    } else if (arg === '--force') {
+      options.force = true;
+    } else if (
+      (arg === 'schema' || arg === 'migrate' || arg === 'init') &&
+      i === 0
+    ) {
+      options.command = arg;
     } else if (arg && !arg.startsWith('--')) {
       // First non-option argument is workspace path
       options.workspacePath = arg;
@@ -124,11 +217,159 @@ export function parseArguments(
   return options;
 }
 
+/**
+ * Print the configuration JSON Schema, or write it to `options.output`
+ */
+export function runSchemaCommand(options: CliOptions): void {
+  if (!options.output) {
+    console.log(JSON.stringify(generateConfigJsonSchema(), null, 2));
+    return;
+  }
+  const outputPath = path.resolve(options.output);
+  writeConfigJsonSchema(outputPath);
+  console.error(`Configuration JSON Schema written to ${outputPath}`);
+}
+
+/**
+ * Upgrade the workspace configuration file, printing the applied changes
+ */
+export async function runMigrateCommand(options: CliOptions): Promise<void> {
+  const workspacePath = path.resolve(options.workspacePath);
+  const configPath = findWorkspaceConfig(workspacePath);
+  if (!configPath) {
+    throw new Error(`No configuration file found in ${workspacePath}`);
+  }
+
+  const configManager = container.get<IConfigurationManager>(
+    TYPES.ConfigurationManager
+  );
+  if (!configManager.migrateConfigFile) {
+    throw new Error('Configuration migrations are not supported');
+  }
+  const report = await configManager.migrateConfigFile(configPath, {
+    dryRun: options.dryRun,
+  });
+
+  if (report.applied.length === 0) {
+    console.log(`${report.file} is already at version ${report.toVersion}`);
+    return;
+  }
+  console.log(
+    `${report.file}: version ${report.fromVersion} -> ${report.toVersion}`
+  );
+  report.applied.forEach(step => console.log(`  * ${step}`));
+  console.log(report.diff);
+  if (report.written) {
+    console.log(`Backup written to ${report.backupPath}`);
+  } else {
+    console.log('Nothing was written');
+  }
+}
+
+function findWorkspaceConfig(workspacePath: string): string | undefined {
+  return CONFIG_FILE_NAMES.map(file => path.join(workspacePath, file)).find(
+    file => fs.existsSync(file)
+  );
+}
+
+async function askQuestion(question: string): Promise<string> {
+  const readline = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    return await readline.question(question);
+  } finally {
+    readline.close();
+  }
+}
+
+function describeProfile(profile: ProjectProfile): string {
+  const { monorepo } = profile;
+  return [
+    'Detected:',
+    `  package manager  ${profile.packageManager ?? 'none'}`,
+    `  test framework   ${profile.testFramework ?? 'none'}`,
+    `  TypeScript       ${profile.typescript ? 'yes' : 'no'}`,
+    `  monorepo         ${monorepo ? `${monorepo.tool} (${monorepo.packages.join(', ')})` : 'no'}`,
+    `  CI               ${profile.ciFiles.join(', ') || 'none'}`,
+    `  git hooks        ${profile.gitHooks ?? 'none'}`,
+  ].join('\n');
+}
+
+/**
+ * Scaffold a configuration from the detected project. Without `--yes`,
+ * the preset and replacing an existing configuration are confirmed
+ * through `prompt`.
+ * @returns Path of the written configuration, or null when cancelled
+ */
+export async function runInitCommand(
+  options: CliOptions,
+  prompt: Prompt = askQuestion
+): Promise<string | null> {
+  const workspacePath = path.resolve(options.workspacePath);
+  const profile = detectProject(workspacePath);
+  console.log(describeProfile(profile));
+
+  let preset: ConfigPreset = options.preset ?? 'balanced';
+  if (!options.preset && !options.yes) {
+    const answer = (
+      await prompt(`Preset (${CONFIG_PRESETS.join(', ')}) [balanced]: `)
+    )
+      .trim()
+      .toLowerCase();
+    if (answer && !isConfigPreset(answer)) {
+      throw new Error(
+        `Invalid preset '${answer}'. Must be one of: ${CONFIG_PRESETS.join(', ')}.`
+      );
+    }
+    preset = answer ? (answer as ConfigPreset) : preset;
+  }
+
+  const existing = findWorkspaceConfig(workspacePath);
+  if (existing && !options.force) {
+    if (options.yes) {
+      throw new Error(`${existing} already exists. Use --force to replace it.`);
+    }
+    const answer = await prompt(
+      `${existing} already exists. Replace it? [y/N] `
+    );
+    if (!/^y(es)?$/i.test(answer.trim())) {
+      console.log('Nothing was written');
+      return null;
+    }
+  }
+
+  const configPath = path.join(workspacePath, CONFIG_FILE_NAMES[0]!);
+  await container
+    .get<IConfigurationManager>(TYPES.ConfigurationManager)
+    .createDefaultConfig(configPath, buildInitialConfig(profile, preset));
+  console.log(`Created ${configPath} with the ${preset} preset`);
+  if (existing && existing !== configPath) {
+    console.log(
+      `${existing} is no longer used; ${configPath} takes precedence`
+    );
+  }
+  return configPath;
+}
+
 /**
  * Entry point for the MCP workspace Supervisor server
  */
 export async function main(): Promise<void> {
   const options = parseArguments();
+  if (options.command === 'schema') {
+    runSchemaCommand(options);
+    return;
+  }
+  if (options.command === 'migrate') {
+    await runMigrateCommand(options);
+    return;
+  }
+  if (options.command === 'init') {
+    await runInitCommand(options);
+    return;
+  }
   const absoluteWorkspacePath = path.resolve(options.workspacePath);
 
   // Validate workspace path exists and is a directory
@@ -152,6 +393,11 @@ export async function main(): Promise<void> {
     TYPES.McpWorkspaceSupervisor
   );
 
+  // Select the configuration environment overlay
+  container
+    .get<IConfigurationManager>(TYPES.ConfigurationManager)
+    .setEnvironment?.(options.env);
+
   // Log startup information
   logger.info(`MCP Workspace Supervisor starting...`);
   logger.info(`Workspace path: ${absoluteWorkspacePath}`);
@@ -173,6 +419,7 @@ export async function main(): Promise<void> {
           http: {
             port: options.port,
             host: options.host,
+            approvalToken: process.env.SUPERVISOR_APPROVAL_TOKEN,
           },
         }
       : undefined;
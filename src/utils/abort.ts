@@ -0,0 +1,86 @@
+/**
+ * Abort helpers - timeouts and cancellation for async work
+ */
+
+export interface AbortableOptions {
+  // Abort after this many milliseconds
+  timeoutMs?: number;
+  // Caller's signal; aborting it aborts the task
+  signal?: AbortSignal;
+  // Error the task is rejected with when the timeout elapses
+  onTimeout?: () => Error;
+}
+
+/**
+ * Run a task with a signal that aborts when the caller's signal aborts or
+ * the timeout elapses. Settles as soon as either happens, even when the
+ * task ignores its signal and never settles.
+ */
+export function runAbortable<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  options: AbortableOptions = {}
+): Promise<T> {
+  const { timeoutMs, signal } = options;
+  const controller = new AbortController();
+
+  return new Promise<T>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = (): void => abort(signal?.reason);
+    const cleanup = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const abort = (reason: unknown): void => {
+      cleanup();
+      controller.abort(reason);
+      reject(reason);
+    };
+
+    if (signal?.aborted) {
+      abort(signal.reason);
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(
+        () =>
+          abort(
+            options.onTimeout?.() ?? new Error(`Timed out after ${timeoutMs}ms`)
+          ),
+        timeoutMs
+      );
+    }
+
+    task(controller.signal).then(
+      value => {
+        cleanup();
+        resolve(value);
+      },
+      error => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Wait for a number of milliseconds; rejects early if the signal aborts
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
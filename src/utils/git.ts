@@ -0,0 +1,61 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * A single commit read from the local git history
+ */
+export interface GitCommit {
+  hash: string;
+  message: string;
+}
+
+// Unit/record separators keep multi-line commit bodies intact when parsing
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+/**
+ * Run a git command in the given working directory and return stdout
+ */
+export async function runGit(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    maxBuffer: 10 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+/**
+ * Read commits from a revision range (e.g. `origin/main..HEAD`).
+ * When no range is given, only the HEAD commit is returned. Ranges come
+ * from callers, so ones that git would read as options are rejected.
+ */
+export async function readCommits(
+  cwd: string,
+  range?: string
+): Promise<GitCommit[]> {
+  const args = [
+    'log',
+    '--no-merges',
+    `--format=%H${FIELD_SEPARATOR}%B${RECORD_SEPARATOR}`,
+  ];
+  if (range) {
+    if (range.startsWith('-')) {
+      throw new Error(`Invalid commit range '${range}'`);
+    }
+    args.push('--end-of-options', range);
+  } else {
+    args.push('-1', 'HEAD');
+  }
+
+  const output = await runGit(cwd, args);
+  return output
+    .split(RECORD_SEPARATOR)
+    .map(record => record.trim())
+    .filter(record => record.length > 0)
+    .map(record => {
+      const [hash = '', message = ''] = record.split(FIELD_SEPARATOR);
+      return { hash, message: message.trim() };
+    });
+}
@@ -0,0 +1,115 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+/**
+ * Workspace file tree with POSIX-style paths relative to the workspace root
+ */
+export interface FileTree {
+  files: string[];
+  directories: string[];
+}
+
+// Directories that are never part of a project's own structure
+const IGNORED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+/**
+ * Check whether a path contains glob syntax
+ */
+export function hasGlobMagic(pattern: string): boolean {
+  return /[*?{]/.test(pattern);
+}
+
+/**
+ * Normalize a relative path: POSIX separators, no leading `./`, no trailing `/`
+ */
+export function normalizeRelativePath(path: string): string {
+  return path
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .replace(/\/+$/, '');
+}
+
+/**
+ * Convert a glob pattern into an anchored regular expression.
+ * Supports `**`, `*`, `?` and `{a,b}` alternation.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const glob = normalizeRelativePath(pattern);
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] as string;
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` anything
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Return the paths that match a glob pattern (or equal a literal path)
+ */
+export function matchPaths(paths: string[], pattern: string): string[] {
+  const normalized = normalizeRelativePath(pattern);
+  if (!hasGlobMagic(normalized)) {
+    return paths.filter(path => path === normalized);
+  }
+  const regex = globToRegExp(normalized);
+  return paths.filter(path => regex.test(path));
+}
+
+/**
+ * Recursively list files and directories under a workspace root
+ */
+export async function readFileTree(root: string): Promise<FileTree> {
+  const tree: FileTree = { files: [], directories: [] };
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    const entries = await fs.readdir(join(root, relativeDir), {
+      withFileTypes: true,
+    });
+
+    for (const entry of entries) {
+      const relativePath = relativeDir
+        ? `${relativeDir}/${entry.name}`
+        : entry.name;
+
+      if (entry.isDirectory()) {
+        if (IGNORED_DIRECTORIES.has(entry.name)) continue;
+        tree.directories.push(relativePath);
+        await walk(relativePath);
+      } else {
+        tree.files.push(relativePath);
+      }
+    }
+  };
+
+  await walk('');
+  return tree;
+}
@@ -0,0 +1,164 @@
+/**
+ * Source locations inside JSON (and JSON with comments) documents
+ */
+
+export type JsonPath = Array<string | number>;
+
+export interface SourceLocation {
+  // 1-based line and column
+  line: number;
+  column: number;
+}
+
+export interface JsonPathLocation extends SourceLocation {
+  // Number of path segments found; less than the path length when only a
+  // parent exists in the document
+  depth: number;
+}
+
+const pathKey = (path: JsonPath): string => JSON.stringify(path.map(String));
+
+/**
+ * Map every value in a JSON document to the offset where it starts.
+ * Comments, trailing commas, single quotes and unquoted keys are tolerated.
+ */
+function indexJsonValues(content: string): Map<string, number> {
+  const offsets = new Map<string, number>();
+  let i = 0;
+
+  const skipTrivia = (): void => {
+    while (i < content.length) {
+      const char = content[i]!;
+      if (/\s/.test(char)) {
+        i++;
+      } else if (content.startsWith('//', i)) {
+        const end = content.indexOf('\n', i);
+        i = end === -1 ? content.length : end + 1;
+      } else if (content.startsWith('/*', i)) {
+        const end = content.indexOf('*/', i + 2);
+        i = end === -1 ? content.length : end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const readString = (): string => {
+    const quote = content[i]!;
+    let value = '';
+    i++;
+    while (i < content.length && content[i] !== quote) {
+      if (content[i] === '\\') i++;
+      value += content[i] ?? '';
+      i++;
+    }
+    i++;
+    return value;
+  };
+
+  const readKey = (): string => {
+    if (content[i] === '"' || content[i] === "'") return readString();
+    const start = i;
+    while (i < content.length && /[\w$]/.test(content[i]!)) i++;
+    return content.slice(start, i);
+  };
+
+  const readValue = (path: JsonPath): void => {
+    skipTrivia();
+    offsets.set(pathKey(path), i);
+    const char = content[i];
+
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      let index = 0;
+      i++;
+      while (i < content.length) {
+        skipTrivia();
+        if (content[i] === close) {
+          i++;
+          return;
+        }
+        const start = i;
+        if (char === '{') {
+          const key = readKey();
+          skipTrivia();
+          i++; // ':'
+          readValue([...path, key]);
+        } else {
+          readValue([...path, index++]);
+        }
+        skipTrivia();
+        if (content[i] === ',') i++;
+        // Malformed input: stop rather than loop forever
+        if (i === start) return;
+      }
+      return;
+    }
+
+    if (char === '"' || char === "'") {
+      readString();
+      return;
+    }
+
+    while (i < content.length && !/[\s,\]}]/.test(content[i]!)) i++;
+  };
+
+  readValue([]);
+  return offsets;
+}
+
+/**
+ * Line and column of an offset in a text
+ */
+export function toLocation(content: string, offset: number): SourceLocation {
+  const before = content.slice(0, offset).split('\n');
+  return {
+    line: before.length,
+    column: (before[before.length - 1]?.length ?? 0) + 1,
+  };
+}
+
+/**
+ * Locate the value at `path` in a JSON document. When the path does not
+ * exist, the closest existing parent is returned instead.
+ */
+export function locateJsonPath(
+  content: string,
+  path: JsonPath
+): JsonPathLocation {
+  const offsets = indexJsonValues(content);
+  for (let depth = path.length; depth >= 0; depth--) {
+    const offset = offsets.get(pathKey(path.slice(0, depth)));
+    if (offset !== undefined) {
+      return { ...toLocation(content, offset), depth };
+    }
+  }
+  return { line: 1, column: 1, depth: 0 };
+}
+
+/**
+ * Render the lines around a location with a marker under the column
+ */
+export function formatCodeFrame(
+  content: string,
+  location: SourceLocation,
+  contextLines = 2
+): string {
+  const lines = content.split('\n');
+  const first = Math.max(1, location.line - contextLines);
+  const last = Math.min(lines.length, location.line + contextLines);
+  const gutter = String(last).length;
+
+  const frame: string[] = [];
+  for (let line = first; line <= last; line++) {
+    const marker = line === location.line ? '>' : ' ';
+    const number = String(line).padStart(gutter);
+    frame.push(`${marker} ${number} | ${lines[line - 1] ?? ''}`.trimEnd());
+    if (line === location.line) {
+      frame.push(
+        `  ${' '.repeat(gutter)} | ${' '.repeat(location.column - 1)}^`
+      );
+    }
+  }
+  return frame.join('\n');
+}
@@ -1,16 +1,20 @@
 /**
  * promisePool - Utility for running async tasks with concurrency control
  * Follows SOLID principles: single responsibility, reusable, testable
+ * Once the optional signal aborts, no further tasks are started and the
+ * pool rejects with the signal's reason.
  */
 export async function promisePool<T>(
   tasks: Array<() => Promise<T>>,
-  concurrency: number
+  concurrency: number,
+  signal?: AbortSignal
 ): Promise<T[]> {
   const results: T[] = [];
   let i = 0;
   const pool: Promise<void>[] = [];
   async function runTask() {
     if (i >= tasks.length) return;
+    if (signal?.aborted) throw signal.reason;
     const idx = i++;
     const task = tasks[idx];
     if (task) {
@@ -21,3 +21,83 @@ export function inferType(
 export function getWorkTime(startTime: number): number {
   return Date.now() - startTime;
 }
+
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize equally
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (key, item) =>
+    isPlainObject(item)
+      ? Object.fromEntries(
+          Object.keys(item)
+            .sort()
+            .map(key => [key, item[key]])
+        )
+      : item
+  );
+}
+
+/**
+ * Deep-merge `override` into `base` without mutating either.
+ * Plain objects merge recursively; arrays and other values replace.
+ */
+export function deepMerge<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = deepMerge(merged[key], value);
+  }
+  return merged as T;
+}
+
+/**
+ * Edit distance between two strings (insertions, deletions, substitutions)
+ */
+export function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Closest candidate to a misspelled value, if any is close enough to be a
+ * plausible typo
+ */
+export function findClosestMatch(
+  value: string,
+  candidates: Iterable<string>
+): string | null {
+  const maxDistance = Math.max(2, Math.floor(value.length / 3));
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = levenshtein(value.toLowerCase(), candidate.toLowerCase());
+    if (distance <= maxDistance && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  CONFIG_RESOURCE_URI,
+  registerConfigUpdates,
+} from '../../../src/adapters/mcp/configUpdates';
+
+const createServer = () => {
+  const handlers = new Map<unknown, (request: any) => Promise<unknown>>();
+  const server = {
+    registerCapabilities: jest.fn(),
+    setRequestHandler: jest.fn(
+      (schema: unknown, handler: (request: any) => Promise<unknown>) => {
+        handlers.set(schema, handler);
+      }
+    ),
+    sendResourceUpdated: jest.fn(async () => undefined),
+  };
+  return { server, handlers };
+};
+
+const createConfigManager = () => {
+  let listener: (() => void) | undefined;
+  return {
+    watch: jest.fn(),
+    unwatch: jest.fn(),
+    onConfigChange: jest.fn((fn: () => void) => {
+      listener = fn;
+      return () => {
+        listener = undefined;
+      };
+    }),
+    emit: () => listener?.(),
+  };
+};
+
+const logger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+describe('registerConfigUpdates', () => {
+  it('watches the config and advertises resource subscriptions', () => {
+    const { server } = createServer();
+    const configManager = createConfigManager();
+
+    registerConfigUpdates({ server } as any, configManager as any, logger);
+
+    expect(server.registerCapabilities).toHaveBeenCalledWith({
+      resources: { subscribe: true },
+    });
+    expect(configManager.watch).toHaveBeenCalled();
+  });
+
+  it('notifies subscribed clients when the config changes', async () => {
+    const { server, handlers } = createServer();
+    const configManager = createConfigManager();
+    registerConfigUpdates({ server } as any, configManager as any, logger);
+
+    configManager.emit();
+    expect(server.sendResourceUpdated).not.toHaveBeenCalled();
+
+    await handlers.get(SubscribeRequestSchema)!({
+      params: { uri: CONFIG_RESOURCE_URI },
+    });
+    configManager.emit();
+    expect(server.sendResourceUpdated).toHaveBeenCalledWith({
+      uri: 'workspace://config',
+    });
+
+    await handlers.get(UnsubscribeRequestSchema)!({
+      params: { uri: CONFIG_RESOURCE_URI },
+    });
+    configManager.emit();
+    expect(server.sendResourceUpdated).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops watching when disposed', () => {
+    const { server } = createServer();
+    const configManager = createConfigManager();
+
+    const dispose = registerConfigUpdates(
+      { server } as any,
+      configManager as any,
+      logger
+    );
+    dispose();
+
+    expect(configManager.unwatch).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { McpElicitation } from '../../../src/adapters/mcp/elicitation';
+import { ElicitationError } from '../../../src/core/errors/RuleEngineErrors';
+import type { ApprovalRequest } from '../../../src/core/interfaces/IApprovalService';
+
+const approval: ApprovalRequest = {
+  id: 'a1',
+  phase: 'reviewed',
+  from: 'coded',
+  status: 'pending',
+  requestedBy: 'agent',
+  requestedAt: '2026-01-01T00:00:00.000Z',
+  expiresAt: '2026-01-02T00:00:00.000Z',
+};
+
+const createServer = (
+  capabilities: Record<string, unknown> | undefined,
+  response: Record<string, unknown>
+) => {
+  const elicitInput = jest.fn(async (_params: any) => response);
+  return {
+    server: {
+      getClientCapabilities: () => capabilities,
+      elicitInput,
+    },
+    elicitInput,
+  };
+};
+
+describe('MCP Elicitation', () => {
+  it('asks for an approval decision with a typed schema', async () => {
+    const mock = createServer(
+      { elicitation: {} },
+      {
+        action: 'accept',
+        content: { decision: 'approve', approver: 'lead', comment: 'ok' },
+      }
+    );
+    const elicitation = new McpElicitation(mock as any);
+
+    const answer = await elicitation.elicitApproval(approval);
+
+    expect(answer).toEqual({
+      decision: 'approve',
+      approver: 'lead',
+      comment: 'ok',
+    });
+    const params = mock.elicitInput.mock.calls[0]![0];
+    expect(params.message).toContain("from 'coded' to phase 'reviewed'");
+    expect(params.requestedSchema).toMatchObject({
+      properties: { decision: { enum: ['approve', 'reject'] } },
+      required: ['decision', 'approver'],
+    });
+  });
+
+  it('asks for the text of missing plan sections', async () => {
+    const mock = createServer(
+      { elicitation: {} },
+      { action: 'accept', content: { risks: 'Migration may be slow' } }
+    );
+    const elicitation = new McpElicitation(mock as any);
+
+    const sections = await elicitation.elicitPlanSections(['risks'], 'coded');
+
+    expect(sections).toEqual({ risks: 'Migration may be slow' });
+    expect(mock.elicitInput.mock.calls[0]![0].requestedSchema).toEqual({
+      type: 'object',
+      properties: { risks: { type: 'string', title: 'risks', minLength: 1 } },
+      required: ['risks'],
+    });
+  });
+
+  it('resolves to null when the human declines', async () => {
+    const mock = createServer({ elicitation: {} }, { action: 'decline' });
+    const elicitation = new McpElicitation(mock as any);
+
+    expect(await elicitation.elicitApproval(approval)).toBeNull();
+  });
+
+  it('throws when the client lacks elicitation', async () => {
+    const mock = createServer({ sampling: {} }, { action: 'accept' });
+    const elicitation = new McpElicitation(mock as any);
+
+    expect(elicitation.isAvailable()).toBe(false);
+    await expect(elicitation.elicitApproval(approval)).rejects.toThrow(
+      ElicitationError
+    );
+    expect(mock.elicitInput).not.toHaveBeenCalled();
+  });
+});
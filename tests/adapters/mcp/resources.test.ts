@@ -66,6 +66,19 @@ describe('MCP Resources Adapter', () => {
     expect(result.contents[0]).toEqual({ config: true });
   });
 
+  it('registers config-schema resource and handler returns the JSON Schema', async () => {
+    registerMcpResources(mockServer as any, mockSupervisor as any);
+    const call = mockServer.registerResource.mock.calls.find(
+      c => c[0] === 'config-schema'
+    );
+    expect(call).toBeDefined();
+    expect(call[1]).toBe('workspace://config-schema');
+    const handler = call[3];
+    const result = await handler(new URL('workspace://config-schema'));
+    expect(result.contents[0].uri).toBe('workspace://config-schema');
+    expect(JSON.parse(result.contents[0].text).properties.rules).toBeDefined();
+  });
+
   it('registers rule-results resource and handler returns rule results', async () => {
     registerMcpResources(mockServer as any, mockSupervisor as any);
     const call = mockServer.registerResource.mock.calls.find(
@@ -0,0 +1,111 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  McpSamplingAiAgentProvider,
+  registerMcpSampling,
+} from '../../../src/adapters/mcp/sampling';
+import {
+  AiAgentProviderRegistry,
+  StubAiAgentProvider,
+  type AiAgentRequest,
+} from '../../../src/core/services/AiAgentProviders';
+import { AiProviderError } from '../../../src/core/errors/RuleEngineErrors';
+
+const request: AiAgentRequest = {
+  ruleId: 'plan-review',
+  agent: 'claude',
+  strategy: 'validate',
+  instruction: 'The plan must list risks',
+  target: 'plan',
+  content: '## Risks\nNone',
+  refactorAllowed: false,
+};
+
+const createServer = (
+  capabilities: Record<string, unknown> | undefined,
+  text = '{"passed": true, "score": 0.9, "message": "risks listed"}'
+) => {
+  const createMessage = jest.fn(async () => ({
+    role: 'assistant',
+    model: 'client-model',
+    content: { type: 'text', text },
+  }));
+  return {
+    server: {
+      getClientCapabilities: () => capabilities,
+      createMessage,
+    },
+    createMessage,
+  };
+};
+
+const logger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+describe('MCP Sampling Provider', () => {
+  it('asks the client model and validates the verdict', async () => {
+    const mock = createServer({ sampling: {} });
+    const provider = new McpSamplingAiAgentProvider(mock as any);
+
+    const verdict = await provider.evaluate(request);
+
+    expect(verdict).toEqual({
+      passed: true,
+      score: 0.9,
+      message: 'risks listed',
+      suggestions: [],
+    });
+    const params = mock.createMessage.mock.calls[0]?.[0] as any;
+    expect(params.systemPrompt).toContain('"passed": boolean');
+    expect(params.messages[0].content.text).toContain(request.content);
+    expect(params.modelPreferences.hints).toEqual([{ name: 'claude' }]);
+  });
+
+  it('rejects verdicts that do not match the schema', async () => {
+    const mock = createServer({ sampling: {} }, '{"verdict": "ok"}');
+    const provider = new McpSamplingAiAgentProvider(mock as any);
+
+    await expect(provider.evaluate(request)).rejects.toBeInstanceOf(
+      AiProviderError
+    );
+  });
+
+  it('falls back when the client lacks sampling', async () => {
+    const mock = createServer({ roots: {} });
+    const provider = new McpSamplingAiAgentProvider(mock as any, {
+      fallback: new StubAiAgentProvider(),
+    });
+
+    const verdict = await provider.evaluate(request);
+
+    expect(provider.isAvailable()).toBe(false);
+    expect(verdict.passed).toBe(true);
+    expect(mock.createMessage).not.toHaveBeenCalled();
+  });
+
+  it('fails clearly without sampling or fallback', async () => {
+    const provider = new McpSamplingAiAgentProvider(
+      createServer(undefined) as any
+    );
+
+    await expect(provider.evaluate(request)).rejects.toThrow(
+      /does not support sampling/
+    );
+  });
+
+  it('registers as the default provider, wrapping the previous default', async () => {
+    const registry = new AiAgentProviderRegistry();
+    const previous = new StubAiAgentProvider();
+    registry.setDefault(previous);
+    const mock = createServer(undefined);
+
+    const provider = registerMcpSampling(mock as any, registry, logger);
+
+    expect(registry.resolve('copilot')).toBe(provider);
+    expect(registry.list()).toContain('mcp-sampling');
+    expect((await provider.evaluate(request)).passed).toBe(true);
+  });
+});
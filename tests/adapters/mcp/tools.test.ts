@@ -4,6 +4,10 @@ import { registerMcpTools } from '../../../src/adapters/mcp/tools';
 // Mocks
 const mockServer = {
   registerTool: jest.fn(),
+  server: {
+    getClientCapabilities: jest.fn((): any => undefined),
+    elicitInput: jest.fn(async (): Promise<any> => ({ action: 'decline' })),
+  },
 };
 const mockSupervisor = {
   getLogger: () => ({
@@ -12,13 +16,40 @@ const mockSupervisor = {
   }),
   getRuleEngine: jest.fn(() => ({
     executeRule: jest.fn(() => ({ result: 'ok' })),
+    getCacheStats: jest.fn(async () => ({
+      hits: 3,
+      misses: 1,
+      hitRate: 0.75,
+      entries: 1,
+      diskEntries: 1,
+    })),
+    clearCache: jest.fn(async () => {}),
+  })),
+  getConfigManager: jest.fn(() => ({
+    validateConfig: jest.fn(),
+    diagnoseConfig: jest.fn(async () => ({
+      valid: false,
+      diagnostics: [
+        {
+          severity: 'error',
+          code: 'unknown-reference',
+          message: "Phase 'coded' enforces unknown rule 'coverge'",
+          path: ['phases', 'coded', 'enforce', 0],
+          suggestion: 'rule:coverage',
+          line: 4,
+          column: 18,
+        },
+      ],
+    })),
   })),
-  getConfigManager: jest.fn(() => ({ validateConfig: jest.fn() })),
   getConfig: jest.fn(() => ({ config: true })),
   getAuditLogService: jest.fn(() => ({
     getHistory: jest.fn(() => [{ id: 1 }]),
   })),
-  getRecentRuleResults: jest.fn(() => [{ rule: 'r1', timestamp: Date.now() }]),
+  getRecentRuleResults: jest.fn(() => [
+    { ruleId: 'r1', status: 'passed', timestamp: Date.now() },
+    { ruleId: 'r2', status: 'errored', timestamp: Date.now() },
+  ]),
   getPluginManager: jest.fn(() => ({
     listPlugins: jest.fn(() => ['pluginA']),
     unloadPlugin: jest.fn(() => Promise.resolve()),
@@ -28,6 +59,38 @@ const mockSupervisor = {
     queryAll: jest.fn(() => Promise.resolve([{ ctx: 1 }])),
     set: jest.fn(() => Promise.resolve()),
   })),
+  getApprovalService: jest.fn(() => ({
+    listApprovals: jest.fn(async () => [{ id: 'a1', status: 'pending' }]),
+  })),
+  getPlanValidator: jest.fn(() => ({
+    getRequiredSections: jest.fn(async () => ['problem', 'risks']),
+    validatePlanForEnrichment: jest.fn(
+      async (plan: any, required: string[]) => {
+        const missingSections = required.filter(
+          name => !plan.sections.some((section: any) => section.name === name)
+        );
+        return { isValid: missingSections.length === 0, missingSections };
+      }
+    ),
+  })),
+  getPhaseTransitionService: jest.fn(() => ({
+    getCurrentPhase: jest.fn(async () => ({ phase: 'draft' })),
+    listTransitions: jest.fn(async () => ['coded']),
+    requestTransition: jest.fn(async (to: string) => ({
+      from: 'draft',
+      to,
+      status: to === 'coded' ? 'completed' : 'blocked',
+    })),
+  })),
+};
+
+// Request context the MCP server passes to every tool handler
+const extra = { signal: new AbortController().signal };
+
+// JSON document returned as text content
+const parseJson = (result: any) => {
+  expect(result.content[0].type).toBe('text');
+  return JSON.parse(result.content[0].text);
 };
 
 describe('MCP Tools Adapter', () => {
@@ -51,7 +114,10 @@ describe('MCP Tools Adapter', () => {
     );
     expect(call).toBeDefined();
     const handler = call[2];
-    const result = await handler({ ruleId: 'r1', params: { foo: 'bar' } });
+    const result = await handler(
+      { ruleId: 'r1', params: { foo: 'bar' } },
+      extra
+    );
     expect(result.content[0].type).toBe('json');
   });
 
@@ -64,6 +130,10 @@ describe('MCP Tools Adapter', () => {
     const handler = call[2];
     const result = await handler({});
     expect(result.content[0].type).toBe('json');
+    expect(result.content[0].data.valid).toBe(false);
+    expect(result.content[0].data.diagnostics[0].suggestion).toBe(
+      'rule:coverage'
+    );
   });
 
   it('registers get-audit-history tool', async () => {
@@ -90,6 +160,60 @@ describe('MCP Tools Adapter', () => {
     expect(Array.isArray(result.content[0].data)).toBe(true);
   });
 
+  it('filters get-rule-results by status', async () => {
+    registerMcpTools(mockServer as any, mockSupervisor as any);
+    const call = mockServer.registerTool.mock.calls.find(
+      c => c[0] === 'get-rule-results'
+    );
+    const result = await call[2]({ status: ['errored', 'timeout'] });
+    expect(result.content[0].data).toEqual([
+      expect.objectContaining({ ruleId: 'r2', status: 'errored' }),
+    ]);
+  });
+
+  it('lists violations of the latest run of each rule by location', async () => {
+    const violation = (ruleId: string, file: string, line: number) => ({
+      ruleId,
+      severity: 'error',
+      message: 'Forbidden pattern found',
+      file,
+      range: { start: { line, column: 1 }, end: { line, column: 5 } },
+    });
+    mockSupervisor.getRecentRuleResults.mockImplementationOnce(() => [
+      { ruleId: 'r1', violations: [violation('r1', 'b.ts', 1)] },
+      { ruleId: 'r2', violations: [violation('r2', 'b.ts', 9)] },
+      {
+        ruleId: 'r1',
+        violations: [violation('r1', 'b.ts', 4), violation('r1', 'a.ts', 7)],
+      },
+    ]);
+    registerMcpTools(mockServer as any, mockSupervisor as any);
+    const call = mockServer.registerTool.mock.calls.find(
+      c => c[0] === 'get-rule-violations'
+    );
+
+    const result = await call[2]({});
+
+    expect(
+      parseJson(result).map(
+        (v: any) => `${v.file}:${v.range.start.line} ${v.ruleId}`
+      )
+    ).toEqual(['a.ts:7 r1', 'b.ts:4 r1', 'b.ts:9 r2']);
+  });
+
+  it('registers get-rule-cache-stats and clear-rule-cache tools', async () => {
+    registerMcpTools(mockServer as any, mockSupervisor as any);
+    const handler = (name: string) =>
+      mockServer.registerTool.mock.calls.find(c => c[0] === name)[2];
+
+    const stats = await handler('get-rule-cache-stats')({});
+    expect(parseJson(stats)).toMatchObject({ hits: 3, hitRate: 0.75 });
+
+    const cleared = await handler('clear-rule-cache')({});
+    expect(cleared.isError).toBeUndefined();
+    expect(cleared.content[0].text).toBe('Rule result cache cleared');
+  });
+
   it('registers list-plugins tool', async () => {
     registerMcpTools(mockServer as any, mockSupervisor as any);
     const call = mockServer.registerTool.mock.calls.find(
@@ -140,4 +264,119 @@ describe('MCP Tools Adapter', () => {
     expect(result.content[0].data.key).toBe('foo');
     expect(result.content[0].data.value).toBe(42);
   });
+
+  it('registers get-phase tool', async () => {
+    registerMcpTools(mockServer as any, mockSupervisor as any);
+    const call = mockServer.registerTool.mock.calls.find(
+      c => c[0] === 'get-phase'
+    );
+    expect(call).toBeDefined();
+    const result = await call[2]({});
+    expect(parseJson(result)).toEqual({
+      phase: 'draft',
+      transitions: ['coded'],
+    });
+  });
+
+  it('registers list-transitions tool', async () => {
+    registerMcpTools(mockServer as any, mockSupervisor as any);
+    const call = mockServer.registerTool.mock.calls.find(
+      c => c[0] === 'list-transitions'
+    );
+    expect(call).toBeDefined();
+    const result = await call[2]({});
+    expect(parseJson(result)).toEqual(['coded']);
+  });
+
+  it('registers request-transition tool and flags unfinished transitions', async () => {
+    registerMcpTools(mockServer as any, mockSupervisor as any);
+    const call = mockServer.registerTool.mock.calls.find(
+      c => c[0] === 'request-transition'
+    );
+    expect(call).toBeDefined();
+    const completed = await call[2]({ to: 'coded' }, extra);
+    expect(parseJson(completed).status).toBe('completed');
+    expect(completed.isError).toBe(false);
+    const blocked = await call[2]({ to: 'production' }, extra);
+    expect(blocked.isError).toBe(true);
+  });
+
+  it('registers list-approvals tool', async () => {
+    registerMcpTools(mockServer as any, mockSupervisor as any);
+    const call = mockServer.registerTool.mock.calls.find(
+      c => c[0] === 'list-approvals'
+    );
+    expect(call).toBeDefined();
+    const result = await call[2]({ status: 'pending' });
+    expect(parseJson(result)).toEqual([{ id: 'a1', status: 'pending' }]);
+  });
+
+  it('leaves approval decisions to humans outside the agent session', () => {
+    registerMcpTools(mockServer as any, mockSupervisor as any);
+    const names = mockServer.registerTool.mock.calls.map(c => c[0]);
+    expect(names).not.toContain('approve-request');
+    expect(names).not.toContain('reject-request');
+  });
+
+  it('registers check-plan tool and elicits missing sections', async () => {
+    registerMcpTools(mockServer as any, mockSupervisor as any);
+    const call = mockServer.registerTool.mock.calls.find(
+      c => c[0] === 'check-plan'
+    );
+    expect(call).toBeDefined();
+    const plan = { sections: [{ name: 'problem', content: 'Slow builds' }] };
+
+    const unsupported = await call[2]({ phase: 'coded', plan });
+    expect(unsupported.isError).toBe(true);
+    expect(unsupported.content[0].text).toContain(
+      'does not support elicitation'
+    );
+
+    mockServer.server.getClientCapabilities.mockReturnValue({
+      elicitation: {},
+    });
+    mockServer.server.elicitInput.mockResolvedValue({
+      action: 'accept',
+      content: { risks: 'Cache invalidation' },
+    });
+    const completed = await call[2]({ phase: 'coded', plan });
+    expect(completed.isError).toBe(false);
+    expect(parseJson(completed).plan.sections).toEqual([
+      { name: 'problem', content: 'Slow builds' },
+      { name: 'risks', content: 'Cache invalidation' },
+    ]);
+    mockServer.server.getClientCapabilities.mockReturnValue(undefined);
+  });
+
+  it('elicits pending approvals in request-transition', async () => {
+    const requestTransition = jest
+      .fn(async (): Promise<any> => ({ status: 'completed' }))
+      .mockResolvedValueOnce({
+        status: 'awaiting-approval',
+        approval: { id: 'a2', phase: 'reviewed' },
+      });
+    mockSupervisor.getPhaseTransitionService.mockReturnValueOnce({
+      requestTransition,
+    } as any);
+    const approve = jest.fn(async () => ({}));
+    mockSupervisor.getApprovalService.mockReturnValueOnce({ approve } as any);
+    mockServer.server.getClientCapabilities.mockReturnValue({
+      elicitation: {},
+    });
+    mockServer.server.elicitInput.mockResolvedValue({
+      action: 'accept',
+      content: { decision: 'approve', approver: 'lead' },
+    });
+
+    registerMcpTools(mockServer as any, mockSupervisor as any);
+    const call = mockServer.registerTool.mock.calls.find(
+      c => c[0] === 'request-transition'
+    );
+    const result = await call[2]({ to: 'reviewed' }, extra);
+
+    expect(approve).toHaveBeenCalledWith('a2', 'lead', undefined);
+    expect(requestTransition).toHaveBeenCalledTimes(2);
+    expect(result.isError).toBe(false);
+    mockServer.server.getClientCapabilities.mockReturnValue(undefined);
+  });
 });
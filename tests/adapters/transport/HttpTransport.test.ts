@@ -0,0 +1,117 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HttpTransport } from '../../../src/adapters/transport/HttpTransport';
+import { ApprovalService } from '../../../src/core/services/ApprovalService';
+import { AuditLogService } from '../../../src/core/services/AuditLogService';
+import { TestLogger } from '../../utils/RuleEngineTestUtils';
+
+describe('HttpTransport approvals endpoint', () => {
+  const port = 38000 + Math.floor(Math.random() * 1000);
+  const baseUrl = `http://localhost:${port}/approvals`;
+  const token = 'approval-secret';
+  const authorization = `Bearer ${token}`;
+  let tempDir: string;
+  let approvals: ApprovalService;
+  let transport: HttpTransport;
+
+  const connect = async (target: HttpTransport) => {
+    await target.connect(new McpServer({ name: 'test', version: '1.0.0' }));
+    await new Promise(resolve => setTimeout(resolve, 50));
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'http-approvals-'));
+    const logger = new TestLogger();
+    approvals = new ApprovalService(
+      path.join(tempDir, 'approvals.json'),
+      new AuditLogService(logger),
+      logger
+    );
+    transport = new HttpTransport({ port, approvalToken: token }, approvals);
+    await connect(transport);
+  });
+
+  afterEach(async () => {
+    await transport.disconnect();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const get = (url: string) => fetch(url, { headers: { authorization } });
+  const post = (
+    url: string,
+    body: unknown,
+    headers: Record<string, string> = { authorization }
+  ) =>
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  it('should list and approve pending requests', async () => {
+    const { id } = await approvals.requestApproval('reviewed');
+
+    const listed = await get(`${baseUrl}?status=pending`);
+    expect(await listed.json()).toEqual([
+      expect.objectContaining({ id, phase: 'reviewed' }),
+    ]);
+
+    const approved = await post(`${baseUrl}/${id}/approve`, {
+      approver: 'lead',
+      comment: 'Ship it',
+    });
+    expect(approved.status).toBe(200);
+    expect(await approved.json()).toMatchObject({
+      status: 'approved',
+      decision: { approver: 'lead', comment: 'Ship it' },
+    });
+  });
+
+  it('should map unknown and already decided requests to HTTP errors', async () => {
+    const { id } = await approvals.requestApproval('reviewed');
+    await approvals.reject(id, 'lead');
+
+    expect((await get(`${baseUrl}/missing`)).status).toBe(404);
+    expect(
+      (await post(`${baseUrl}/${id}/approve`, { approver: 'lead' })).status
+    ).toBe(409);
+    expect((await post(`${baseUrl}/${id}/reject`, {})).status).toBe(409);
+  });
+
+  it('should reject requests without the approval token', async () => {
+    const { id } = await approvals.requestApproval('reviewed');
+
+    const unauthenticated = await post(
+      `${baseUrl}/${id}/approve`,
+      { approver: 'alice' },
+      {}
+    );
+    expect(unauthenticated.status).toBe(401);
+    expect(
+      (
+        await post(
+          `${baseUrl}/${id}/approve`,
+          { approver: 'alice' },
+          { authorization: 'Bearer wrong-secret' }
+        )
+      ).status
+    ).toBe(401);
+    expect((await fetch(baseUrl)).status).toBe(401);
+    expect((await approvals.getApproval(id)).status).toBe('pending');
+  });
+
+  it('should not serve approvals without a configured token', async () => {
+    await transport.disconnect();
+    transport = new HttpTransport({ port }, approvals);
+    await connect(transport);
+    const { id } = await approvals.requestApproval('reviewed');
+
+    const response = await post(`${baseUrl}/${id}/approve`, {
+      approver: 'alice',
+    });
+    expect(response.status).toBe(404);
+    expect((await approvals.getApproval(id)).status).toBe('pending');
+  });
+});
@@ -0,0 +1,89 @@
+import 'reflect-metadata';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseArguments, runInitCommand } from '../../src/start-server';
+
+describe('start-server init command', () => {
+  let workspace: string;
+  const originalConsoleLog = console.log;
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'supervisor-init-'));
+    console.log = jest.fn();
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should scaffold a config for the detected project without prompting', async () => {
+    writeFileSync(
+      join(workspace, 'package.json'),
+      JSON.stringify({ devDependencies: { jest: '^29.0.0' } })
+    );
+    const prompt = jest.fn();
+
+    const configPath = await runInitCommand(
+      parseArguments(['init', workspace, '--yes']),
+      prompt
+    );
+
+    expect(prompt).not.toHaveBeenCalled();
+    expect(configPath).toBe(join(workspace, '.supervisorrc.json'));
+    const config = JSON.parse(readFileSync(configPath!, 'utf-8'));
+    expect(config.$schema).toBe('./.supervisor/config.schema.json');
+    expect(Object.keys(config.rules)).toEqual([
+      'security-scan',
+      'test-coverage',
+      'test-files',
+    ]);
+  });
+
+  it('should ask for the preset and before replacing a config', async () => {
+    writeFileSync(join(workspace, '.supervisorrc.json'), '{}');
+    const prompt = jest
+      .fn<Promise<string>, [string]>()
+      .mockResolvedValueOnce('minimal')
+      .mockResolvedValueOnce('n');
+
+    const configPath = await runInitCommand(
+      parseArguments(['init', workspace]),
+      prompt
+    );
+
+    expect(prompt).toHaveBeenCalledTimes(2);
+    expect(configPath).toBeNull();
+    expect(readFileSync(join(workspace, '.supervisorrc.json'), 'utf-8')).toBe(
+      '{}'
+    );
+  });
+
+  it('should refuse to replace a config with --yes unless forced', async () => {
+    writeFileSync(join(workspace, '.supervisorrc.yaml'), 'plan: {}\n');
+
+    await expect(
+      runInitCommand(parseArguments(['init', workspace, '--yes']))
+    ).rejects.toThrow('already exists. Use --force to replace it.');
+    expect(existsSync(join(workspace, '.supervisorrc.json'))).toBe(false);
+
+    await runInitCommand(
+      parseArguments([
+        'init',
+        workspace,
+        '--yes',
+        '--force',
+        '--preset',
+        'minimal',
+      ])
+    );
+    expect(existsSync(join(workspace, '.supervisorrc.json'))).toBe(true);
+  });
+});
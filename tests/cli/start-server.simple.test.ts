@@ -155,6 +155,45 @@ describe('start-server CLI Functions - Simple Unit Tests', () => {
         host: '127.0.0.1',
       });
     });
+
+    it('should parse environment argument', () => {
+      const result = parseArguments(['--env', 'production']);
+
+      expect(result.env).toBe('production');
+    });
+
+    it('should parse the schema command and its output file', () => {
+      const result = parseArguments(['schema', '--output', 'schema.json']);
+
+      expect(result.command).toBe('schema');
+      expect(result.output).toBe('schema.json');
+      expect(result.workspacePath).toBe(process.cwd());
+    });
+
+    it('should parse the migrate command with a workspace and dry run', () => {
+      const result = parseArguments(['migrate', '/workspace', '--dry-run']);
+
+      expect(result.command).toBe('migrate');
+      expect(result.workspacePath).toBe('/workspace');
+      expect(result.dryRun).toBe(true);
+    });
+
+    it('should parse the init command options', () => {
+      const result = parseArguments([
+        'init',
+        '-y',
+        '--preset',
+        'strict',
+        '--force',
+      ]);
+
+      expect(result).toMatchObject({
+        command: 'init',
+        yes: true,
+        preset: 'strict',
+        force: true,
+      });
+    });
   });
 
   describe('parseArguments - Help Cases', () => {
@@ -202,6 +241,12 @@ describe('start-server CLI Functions - Simple Unit Tests', () => {
       );
     });
 
+    it('should throw error for invalid preset', () => {
+      expect(() => parseArguments(['init', '--preset', 'lax'])).toThrow(
+        "Error: Invalid preset 'lax'. Must be one of: strict, balanced, minimal."
+      );
+    });
+
     it('should throw error for missing host value', () => {
       expect(() => parseArguments(['--host'])).toThrow(
         'Error: --host requires a value'
@@ -0,0 +1,81 @@
+/**
+ * Configuration Preset Tests
+ */
+
+import { buildInitialConfig, CONFIG_PRESETS } from '../../src/config/presets';
+import { SupervisorConfigSchema } from '../../src/core/schemas/RuleEngineSchemas';
+import { lintConfig } from '../../src/core/services/ConfigDiagnostics';
+import type { ProjectProfile } from '../../src/core/services/ProjectDetection';
+
+const emptyProfile: ProjectProfile = {
+  packageManager: null,
+  testFramework: null,
+  typescript: false,
+  monorepo: null,
+  ciFiles: [],
+  gitHooks: null,
+};
+
+const fullProfile: ProjectProfile = {
+  packageManager: 'pnpm',
+  testFramework: 'vitest',
+  typescript: true,
+  monorepo: { tool: 'pnpm', packages: ['packages/*'] },
+  ciFiles: ['.github/workflows/ci.yml'],
+  gitHooks: 'husky',
+};
+
+describe('presets', () => {
+  it.each(
+    CONFIG_PRESETS.flatMap(preset => [
+      [preset, 'empty', emptyProfile] as const,
+      [preset, 'full', fullProfile] as const,
+    ])
+  )(
+    'should build a valid %s config for the %s profile',
+    (preset, _, profile) => {
+      const config = SupervisorConfigSchema.parse(
+        buildInitialConfig(profile, preset)
+      );
+
+      expect(lintConfig(config)).toEqual([]);
+    }
+  );
+
+  it('should scale the rules with the preset', () => {
+    const ruleIds = (preset: (typeof CONFIG_PRESETS)[number]) =>
+      Object.keys(buildInitialConfig(fullProfile, preset).rules);
+
+    expect(ruleIds('minimal')).toEqual(['security-scan']);
+    expect(ruleIds('balanced')).toEqual([
+      'security-scan',
+      'test-coverage',
+      'test-files',
+      'conventional-commits',
+    ]);
+    expect(ruleIds('strict')).toEqual([
+      'security-scan',
+      'test-coverage',
+      'test-files',
+      'conventional-commits',
+      'package-layout',
+      'ci-config',
+    ]);
+  });
+
+  it('should tailor rules to the detected tooling', () => {
+    const config = buildInitialConfig(fullProfile, 'balanced');
+
+    expect(config.rules['security-scan']).toMatchObject({
+      check: 'secrets,tracked-env-files,lockfile',
+    });
+    expect(config.rules['test-files']).toMatchObject({
+      requiredFiles: ['**/*.{test,spec}.{ts,tsx}'],
+      forEach: 'packages/*',
+    });
+    expect(config.plan.requiredSections).toContain('packages');
+    expect(
+      Object.keys(buildInitialConfig(emptyProfile, 'balanced').rules)
+    ).toEqual(['security-scan']);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Configuration JSON Schema Tests
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  generateConfigJsonSchema,
+  writeConfigJsonSchema,
+} from '../../../src/core/schemas/ConfigJsonSchema';
+import { RuleTypeSchema } from '../../../src/core/schemas/RuleEngineSchemas';
+
+describe('ConfigJsonSchema', () => {
+  const schema = generateConfigJsonSchema() as any;
+
+  it('should describe a complete configuration', () => {
+    expect(schema.$schema).toBe('http://json-schema.org/draft-07/schema#');
+    expect(schema.type).toBe('object');
+    expect(schema.required).toEqual([
+      'plan',
+      'phases',
+      'rules',
+      'ruleGroups',
+      'extensions',
+      'defaults',
+    ]);
+    expect(schema.additionalProperties).toBe(false);
+    expect(schema.properties.$schema.type).toBe('string');
+  });
+
+  it('should include a described variant for every rule type', () => {
+    const variants = schema.properties.rules.additionalProperties.anyOf;
+
+    expect(
+      variants.map((variant: any) => variant.properties.type.const)
+    ).toEqual(RuleTypeSchema.options);
+    for (const variant of variants) {
+      expect(variant.description).toEqual(expect.any(String));
+      expect(variant.properties.id.description).toEqual(expect.any(String));
+    }
+  });
+
+  it('should write the schema to a new directory', () => {
+    const workspace = mkdtempSync(join(tmpdir(), 'supervisor-schema-'));
+    try {
+      const path = join(workspace, '.supervisor', 'config.schema.json');
+
+      writeConfigJsonSchema(path);
+
+      expect(JSON.parse(readFileSync(path, 'utf-8'))).toEqual(schema);
+    } finally {
+      rmSync(workspace, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * AI Agent Provider Tests
+ *
+ * The OpenAI-compatible provider is exercised against a local HTTP server
+ */
+
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  AiAgentProviderRegistry,
+  OpenAICompatibleProvider,
+  StubAiAgentProvider,
+  buildAiAgentPrompt,
+  createAiAgentProviderRegistry,
+  parseAiVerdict,
+  type AiAgentRequest,
+} from '../../../src/core/services/AiAgentProviders';
+import { AiProviderError } from '../../../src/core/errors/RuleEngineErrors';
+
+const request: AiAgentRequest = {
+  ruleId: 'solid',
+  agent: 'copilot',
+  strategy: 'refactor',
+  instruction: 'Functions must be small',
+  target: 'code',
+  content: 'function run() { return 1; }',
+  refactorAllowed: true,
+};
+
+describe('buildAiAgentPrompt', () => {
+  it('should include the instruction, content and verdict format', () => {
+    const prompt = buildAiAgentPrompt(request);
+
+    expect(prompt.user).toContain('Instruction: Functions must be small');
+    expect(prompt.user).toContain(request.content);
+    expect(prompt.system).toContain('"passed": boolean');
+    expect(prompt.system).toContain('"refactoredContent"');
+  });
+
+  it('should not ask for refactored content unless allowed', () => {
+    const prompt = buildAiAgentPrompt({ ...request, refactorAllowed: false });
+
+    expect(prompt.system).toContain('Do not include "refactoredContent"');
+  });
+});
+
+describe('parseAiVerdict', () => {
+  it('should parse bare and fenced JSON', () => {
+    expect(parseAiVerdict('{"passed": true, "message": "ok"}')).toEqual({
+      passed: true,
+      message: 'ok',
+      suggestions: [],
+    });
+    expect(
+      parseAiVerdict(
+        'Verdict:\n```json\n{"passed": false, "score": 0.4, "message": "too long", "suggestions": ["split"]}\n```'
+      )
+    ).toEqual({
+      passed: false,
+      score: 0.4,
+      message: 'too long',
+      suggestions: ['split'],
+    });
+  });
+
+  it('should reject responses without a valid verdict', () => {
+    expect(() => parseAiVerdict('looks fine to me')).toThrow(AiProviderError);
+    expect(() => parseAiVerdict('{"passed": "yes"}')).toThrow(
+      /AI verdict is invalid/
+    );
+  });
+});
+
+describe('StubAiAgentProvider', () => {
+  it('should be deterministic on content markers', async () => {
+    const provider = new StubAiAgentProvider({ failOn: ['console.log'] });
+
+    const passing = await provider.evaluate(request);
+    const failing = await provider.evaluate({
+      ...request,
+      content: 'console.log(1)',
+    });
+    const empty = await provider.evaluate({ ...request, content: '  ' });
+
+    expect(passing.passed).toBe(true);
+    expect(failing).toMatchObject({ passed: false, score: 0 });
+    expect(failing.suggestions).toEqual(['Resolve console.log markers']);
+    expect(empty.passed).toBe(false);
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let received: { url?: string; auth?: string; body?: any };
+  let reply: { status: number; body: unknown };
+
+  beforeEach(async () => {
+    received = {};
+    reply = { status: 200, body: {} };
+    server = createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => (data += chunk));
+      req.on('end', () => {
+        received = {
+          url: req.url,
+          auth: req.headers.authorization,
+          body: JSON.parse(data),
+        };
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should send a chat completion and parse the verdict', async () => {
+    reply.body = {
+      choices: [
+        {
+          message: {
+            content:
+              '{"passed": false, "score": 0.2, "message": "run is fine but undocumented", "suggestions": ["add docs"], "refactoredContent": "/** doc */"}',
+          },
+        },
+      ],
+    };
+    const provider = new OpenAICompatibleProvider({
+      baseUrl,
+      model: 'local-model',
+      apiKey: 'test-key',
+    });
+
+    const verdict = await provider.evaluate(request);
+
+    expect(received.url).toBe('/v1/chat/completions');
+    expect(received.auth).toBe('Bearer test-key');
+    expect(received.body.model).toBe('local-model');
+    expect(received.body.messages[1].content).toContain(request.content);
+    expect(verdict).toEqual({
+      passed: false,
+      score: 0.2,
+      message: 'run is fine but undocumented',
+      suggestions: ['add docs'],
+      refactoredContent: '/** doc */',
+    });
+  });
+
+  it('should raise a provider error on HTTP failures', async () => {
+    reply = { status: 401, body: { error: 'invalid key' } };
+    const provider = new OpenAICompatibleProvider({ baseUrl, model: 'm' });
+
+    await expect(provider.evaluate(request)).rejects.toThrow(
+      'AI provider request failed with status 401'
+    );
+  });
+});
+
+describe('createAiAgentProviderRegistry', () => {
+  it('should only provide the stub without configuration', () => {
+    const registry = createAiAgentProviderRegistry({});
+
+    expect(registry.list()).toEqual(['stub']);
+    expect(registry.resolve('copilot')).toBeUndefined();
+  });
+
+  it('should default to the OpenAI-compatible provider when configured', () => {
+    const registry = createAiAgentProviderRegistry({
+      SUPERVISOR_AI_BASE_URL: 'http://localhost:11434/v1',
+    });
+
+    expect(registry.list()).toEqual(['stub', 'openai']);
+    expect(registry.resolve('copilot')?.name).toBe('openai-compatible');
+    expect(registry.resolve('stub')?.name).toBe('stub');
+  });
+
+  it('should prefer agent-specific registrations over the default', () => {
+    const registry = new AiAgentProviderRegistry();
+    const stub = new StubAiAgentProvider();
+    registry.setDefault(
+      new OpenAICompatibleProvider({ baseUrl: 'http://x', model: 'm' })
+    );
+    registry.register('copilot', stub);
+
+    expect(registry.resolve('copilot')).toBe(stub);
+  });
+});
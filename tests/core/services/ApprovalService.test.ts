@@ -0,0 +1,135 @@
+/**
+ * Approval Service Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApprovalService } from '../../../src/core/services/ApprovalService';
+import { AuditLogService } from '../../../src/core/services/AuditLogService';
+import {
+  ApprovalError,
+  ApprovalNotFoundError,
+} from '../../../src/core/errors/RuleEngineErrors';
+import { TestLogger } from '../../utils/RuleEngineTestUtils';
+
+describe('ApprovalService', () => {
+  let tempDir: string;
+  let filePath: string;
+  let auditLog: AuditLogService;
+  let service: ApprovalService;
+
+  const createService = () =>
+    new ApprovalService(filePath, auditLog, new TestLogger());
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'approvals-'));
+    filePath = path.join(tempDir, '.mcp', 'approvals.json');
+    auditLog = new AuditLogService(new TestLogger());
+    service = createService();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist pending requests with the phase result they cover', async () => {
+    const phaseResult = {
+      phase: 'reviewed',
+      success: true,
+      results: [],
+      hardFailures: [],
+      softFailures: [],
+      skipped: [],
+      requiresHumanApproval: true,
+    };
+
+    const request = await service.requestApproval('reviewed', {
+      from: 'coded',
+      phaseResult,
+      requestedBy: 'agent',
+    });
+
+    expect(request).toMatchObject({
+      phase: 'reviewed',
+      from: 'coded',
+      status: 'pending',
+      requestedBy: 'agent',
+      phaseResult,
+    });
+    expect(await createService().getApproval(request.id)).toEqual(request);
+    expect(auditLog.getHistory({ action: 'approval:requested' })).toHaveLength(
+      1
+    );
+  });
+
+  it('should supersede the open request of a phase', async () => {
+    const first = await service.requestApproval('reviewed');
+    const second = await service.requestApproval('reviewed', { from: 'coded' });
+
+    expect(second.id).not.toBe(first.id);
+    expect((await service.getApproval(first.id)).status).toBe('expired');
+    expect(await service.listApprovals({ status: 'pending' })).toEqual([
+      second,
+    ]);
+    await expect(service.approve(first.id, 'lead')).rejects.toThrow(
+      ApprovalError
+    );
+    expect(auditLog.getHistory({ action: 'approval:superseded' })).toEqual([
+      expect.objectContaining({
+        context: expect.objectContaining({ approvalId: first.id }),
+      }),
+    ]);
+  });
+
+  it('should only find approvals of promotions from the given phase', async () => {
+    const { id } = await service.requestApproval('reviewed', { from: 'coded' });
+    await service.approve(id, 'lead');
+
+    expect(await service.findApproval('reviewed', 'tested')).toBeNull();
+    expect(await service.findApproval('reviewed', 'coded')).toMatchObject({
+      id,
+    });
+  });
+
+  it('should record approvals with the approver and comment', async () => {
+    const { id } = await service.requestApproval('reviewed');
+
+    const approved = await service.approve(id, 'lead', 'Looks good');
+
+    expect(approved.status).toBe('approved');
+    expect(approved.decision).toMatchObject({
+      approver: 'lead',
+      comment: 'Looks good',
+    });
+    expect(await service.findApproval('reviewed')).toMatchObject({ id });
+
+    await service.consume(id);
+    expect(await service.findApproval('reviewed')).toBeNull();
+    expect(auditLog.getHistory({ action: 'approval:approved' })).toEqual([
+      expect.objectContaining({ actor: 'lead' }),
+    ]);
+  });
+
+  it('should only decide pending requests', async () => {
+    const { id } = await service.requestApproval('reviewed');
+    await service.reject(id, 'lead', 'Missing tests');
+
+    await expect(service.approve(id, 'lead')).rejects.toThrow(ApprovalError);
+    await expect(service.approve('missing', 'lead')).rejects.toThrow(
+      ApprovalNotFoundError
+    );
+    expect(auditLog.findDeviations()).toHaveLength(1);
+  });
+
+  it('should expire requests and unused approvals', async () => {
+    const pending = await service.requestApproval('reviewed', { ttl: -1 });
+    const approved = await service.requestApproval('production', { ttl: 50 });
+    await service.approve(approved.id, 'lead');
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    expect((await service.getApproval(pending.id)).status).toBe('expired');
+    expect(await service.findApproval('production')).toBeNull();
+    expect(await service.listApprovals({ status: 'expired' })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Configuration Diagnostics Tests
+ */
+
+import {
+  collectConfigDiagnostics,
+  lintConfig,
+  locateConfigDiagnostics,
+} from '../../../src/core/services/ConfigDiagnostics';
+import { SupervisorConfigSchema } from '../../../src/core/schemas/RuleEngineSchemas';
+
+const config = (overrides: Record<string, unknown> = {}) => ({
+  plan: { requiredSections: ['goal'] },
+  phases: {
+    coded: { enforce: ['rule:coverage', 'group:quality'] },
+  },
+  rules: {
+    coverage: {
+      id: 'coverage',
+      type: 'threshold',
+      target: 'coverage',
+      value: 0.8,
+      enforcement: 'hard',
+    },
+    'no-todo': {
+      id: 'no-todo',
+      type: 'pattern',
+      pattern: 'TODO',
+      target: 'code',
+      enforcement: 'soft',
+    },
+  },
+  ruleGroups: { quality: ['no-todo'] },
+  extensions: { plugins: [] },
+  defaults: { enforcement: 'soft' },
+  ...overrides,
+});
+
+describe('ConfigDiagnostics', () => {
+  it('should report nothing for a consistent config', () => {
+    expect(collectConfigDiagnostics(config())).toEqual([]);
+  });
+
+  it('should turn schema issues into errors with their path', () => {
+    const raw = config();
+    (raw.rules.coverage as Record<string, unknown>).value = 5;
+
+    expect(collectConfigDiagnostics(raw)).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        code: 'schema',
+        path: ['rules', 'coverage', 'value'],
+        message: expect.stringMatching(/^rules\.coverage\.value: /),
+      }),
+    ]);
+  });
+
+  it('should suggest the closest rule or group for unknown references', () => {
+    const diagnostics = collectConfigDiagnostics(
+      config({
+        phases: {
+          coded: { enforce: ['rule:coverge', 'group:qualty', 'rule:coverage'] },
+        },
+        ruleGroups: { quality: ['no-tdo'] },
+      })
+    );
+
+    expect(
+      diagnostics.map(d => [d.code, d.path.join('.'), d.suggestion])
+    ).toEqual([
+      ['unknown-reference', 'phases.coded.enforce.0', 'rule:coverage'],
+      ['unknown-reference', 'phases.coded.enforce.1', 'group:quality'],
+      ['unknown-reference', 'ruleGroups.quality.0', 'no-todo'],
+      ['unused-rule', 'rules.no-todo', undefined],
+    ]);
+    expect(diagnostics[0]!.message).toBe(
+      "Phase 'coded' enforces unknown rule 'coverge'. Did you mean 'rule:coverage'?"
+    );
+  });
+
+  it('should warn about entries without a rule or group prefix', () => {
+    const [diagnostic] = collectConfigDiagnostics(
+      config({
+        phases: { coded: { enforce: ['coverage', 'group:quality'] } },
+      })
+    );
+
+    expect(diagnostic).toMatchObject({
+      severity: 'warning',
+      code: 'missing-prefix',
+      suggestion: 'rule:coverage',
+    });
+  });
+
+  it('should warn about rules no phase, group or composite references', () => {
+    const raw = config({ phases: { coded: { enforce: ['group:quality'] } } });
+
+    expect(collectConfigDiagnostics(raw)).toEqual([
+      expect.objectContaining({
+        severity: 'warning',
+        code: 'unused-rule',
+        path: ['rules', 'coverage'],
+      }),
+    ]);
+  });
+
+  describe('lintConfig', () => {
+    const lint = (raw: unknown, pluginNames?: string[]) =>
+      lintConfig(SupervisorConfigSchema.parse(raw), { pluginNames }).map(d => [
+        d.code,
+        d.path.join('.'),
+        d.suggestion,
+      ]);
+
+    it('should require rule ids to match their keys', () => {
+      const raw = config();
+      (raw.rules.coverage as Record<string, unknown>).id = 'test-coverage';
+
+      expect(lint(raw)).toEqual([
+        ['id-mismatch', 'rules.coverage.id', 'coverage'],
+      ]);
+    });
+
+    it('should check the phases and rules named by the workflow', () => {
+      const raw = config({
+        phases: { draft: {}, coded: { enforce: ['group:quality'] } },
+        workflow: {
+          initial: 'drat',
+          phases: {
+            draft: { next: ['coded', 'revewed'], onExit: ['rule:coverage'] },
+            coded: { onEnter: ['rule:coverge'] },
+          },
+        },
+      });
+
+      expect(lint(raw)).toEqual([
+        ['unknown-reference', 'workflow.initial', 'draft'],
+        ['unknown-reference', 'workflow.phases.draft.next.1', undefined],
+        [
+          'unknown-reference',
+          'workflow.phases.coded.onEnter.0',
+          'rule:coverage',
+        ],
+      ]);
+    });
+
+    it('should check plugin names only when the loaded plugins are known', () => {
+      const raw = config({
+        phases: { coded: { enforce: ['rule:license'] } },
+        rules: {
+          license: {
+            id: 'license',
+            type: 'plugin',
+            plugin: 'licence-check',
+            enforcement: 'hard',
+          },
+        },
+        ruleGroups: {},
+      });
+
+      expect(lint(raw)).toEqual([]);
+      expect(lint(raw, ['license-check', 'sbom'])).toEqual([
+        ['unknown-plugin', 'rules.license.plugin', 'license-check'],
+      ]);
+      expect(lint(raw, ['licence-check'])).toEqual([]);
+    });
+
+    it('should check waived rules and warn about expired waivers', () => {
+      const scope = { branch: 'release/*' };
+      const raw = config({
+        waivers: {
+          current: {
+            rule: 'coverag',
+            scope,
+            reason: 'Flaky suite',
+            author: 'bob',
+            expires: '2999-01-01',
+          },
+          old: {
+            rule: 'coverage',
+            scope,
+            reason: 'Flaky suite',
+            author: 'bob',
+            expires: '2000-01-01',
+          },
+        },
+      });
+
+      expect(lint(raw)).toEqual([
+        ['unknown-reference', 'waivers.current.rule', 'coverage'],
+        ['expired-waiver', 'waivers.old.expires', undefined],
+      ]);
+    });
+  });
+
+  it('should locate diagnostics in the most specific source that defines them', () => {
+    const base = JSON.stringify(config(), null, 2);
+    const team = [
+      '{',
+      '  // Tightened for the payments team',
+      '  "extends": "./base.json",',
+      '  "rules": {',
+      '    "coverage": { "value": 5 }',
+      '  }',
+      '}',
+    ].join('\n');
+
+    const [diagnostic] = locateConfigDiagnostics(
+      [
+        {
+          severity: 'error',
+          code: 'schema',
+          message:
+            'rules.coverage.value: Number must be less than or equal to 1',
+          path: ['rules', 'coverage', 'value'],
+        },
+      ],
+      [
+        { file: 'team.json', content: team },
+        { file: 'base.json', content: base },
+      ]
+    );
+
+    expect(diagnostic).toMatchObject({
+      file: 'team.json',
+      line: 5,
+      column: 28,
+    });
+    expect(diagnostic!.codeFrame).toBe(
+      [
+        '  3 |   "extends": "./base.json",',
+        '  4 |   "rules": {',
+        '> 5 |     "coverage": { "value": 5 }',
+        '    |                            ^',
+        '  6 |   }',
+        '  7 | }',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Configuration Extends Tests
+ */
+
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import {
+  mergeConfigLayers,
+  resolveConfigLayers,
+  resolveExtendsSpecifier,
+} from '../../../src/core/services/ConfigExtends';
+import { ConfigurationError } from '../../../src/core/errors/RuleEngineErrors';
+
+const readJson = async (path: string) =>
+  JSON.parse(readFileSync(path, 'utf-8'));
+
+describe('ConfigExtends', () => {
+  let workspace: string;
+
+  const write = (path: string, content: unknown) => {
+    const fullPath = join(workspace, path);
+    mkdirSync(dirname(fullPath), { recursive: true });
+    writeFileSync(fullPath, JSON.stringify(content));
+    return fullPath;
+  };
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'supervisor-extends-'));
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  describe('resolveExtendsSpecifier', () => {
+    it('should resolve relative paths against the extending file', () => {
+      const base = write('shared/base.json', {});
+      const from = write('team/.supervisorrc.json', {});
+
+      expect(resolveExtendsSpecifier('../shared/base.json', from)).toBe(base);
+    });
+
+    it('should resolve packages through their entry point or root config', () => {
+      const from = write('.supervisorrc.json', {});
+      write('node_modules/@org/baseline/package.json', {
+        name: '@org/baseline',
+        main: 'supervisor.json',
+      });
+      const entry = write('node_modules/@org/baseline/supervisor.json', {});
+      const rootConfig = write(
+        'node_modules/plain-baseline/.supervisorrc.json',
+        {}
+      );
+
+      expect(resolveExtendsSpecifier('@org/baseline', from)).toBe(entry);
+      expect(resolveExtendsSpecifier('plain-baseline', from)).toBe(rootConfig);
+    });
+
+    it('should report unresolvable entries', () => {
+      const from = write('.supervisorrc.json', {});
+
+      expect(() => resolveExtendsSpecifier('./missing.json', from)).toThrow(
+        ConfigurationError
+      );
+      expect(() => resolveExtendsSpecifier('missing-package', from)).toThrow(
+        "Cannot resolve extended configuration package 'missing-package'"
+      );
+    });
+  });
+
+  describe('resolveConfigLayers', () => {
+    it('should order bases first and apply shared bases once', async () => {
+      const root = write('.supervisorrc.json', {
+        extends: ['./a.json', './b.json'],
+      });
+      const a = write('a.json', { extends: './shared.json' });
+      const b = write('b.json', { extends: './shared.json' });
+      const shared = write('shared.json', {});
+
+      const layers = await resolveConfigLayers(root, readJson);
+
+      expect(layers.map(layer => layer.source)).toEqual([shared, a, b, root]);
+      expect(layers.every(layer => !('extends' in layer.config))).toBe(true);
+    });
+
+    it('should detect extends cycles', async () => {
+      const root = write('.supervisorrc.json', { extends: './a.json' });
+      const a = write('a.json', { extends: './.supervisorrc.json' });
+
+      await expect(resolveConfigLayers(root, readJson)).rejects.toThrow(
+        `Configuration extends cycle detected: ${root} -> ${a} -> ${root}`
+      );
+    });
+
+    it('should reject invalid extends values', async () => {
+      const root = write('.supervisorrc.json', { extends: [42] });
+
+      await expect(resolveConfigLayers(root, readJson)).rejects.toThrow(
+        'Invalid extends'
+      );
+    });
+  });
+
+  describe('mergeConfigLayers', () => {
+    it('should merge rules per field, replace arrays and record provenance', () => {
+      const { config, provenance } = mergeConfigLayers([
+        {
+          source: 'baseline.json',
+          config: {
+            rules: {
+              coverage: { id: 'coverage', type: 'threshold', value: 0.6 },
+              lint: { id: 'lint', type: 'pattern', pattern: 'TODO' },
+            },
+            phases: { coded: { enforce: ['rule:coverage', 'rule:lint'] } },
+            ruleGroups: { quality: ['coverage', 'lint'] },
+          },
+        },
+        {
+          source: 'team.json',
+          config: {
+            rules: { coverage: { value: 0.9 } },
+            phases: { coded: { enforce: ['rule:coverage'] } },
+          },
+        },
+      ]);
+
+      expect(config).toEqual({
+        rules: {
+          coverage: { id: 'coverage', type: 'threshold', value: 0.9 },
+          lint: { id: 'lint', type: 'pattern', pattern: 'TODO' },
+        },
+        phases: { coded: { enforce: ['rule:coverage'] } },
+        ruleGroups: { quality: ['coverage', 'lint'] },
+      });
+      expect(provenance).toEqual({
+        rules: {
+          coverage: ['baseline.json', 'team.json'],
+          lint: ['baseline.json'],
+        },
+        phases: { coded: ['baseline.json', 'team.json'] },
+        ruleGroups: { quality: ['baseline.json'] },
+      });
+    });
+  });
+});
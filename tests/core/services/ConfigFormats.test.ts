@@ -0,0 +1,108 @@
+/**
+ * Configuration Format Tests
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  detectConfigFormat,
+  readConfigFile,
+} from '../../../src/core/services/ConfigFormats';
+import { ConfigurationError } from '../../../src/core/errors/RuleEngineErrors';
+
+const expected = {
+  rules: { coverage: { id: 'coverage', value: 0.8 } },
+  ruleGroups: { quality: ['coverage'] },
+};
+
+describe('ConfigFormats', () => {
+  let workspace: string;
+
+  const write = (name: string, content: string) => {
+    const path = join(workspace, name);
+    writeFileSync(path, content);
+    return path;
+  };
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'supervisor-formats-'));
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should detect formats by extension and sniff extensionless files', () => {
+    expect(detectConfigFormat('supervisor.config.ts')).toBe('module');
+    expect(detectConfigFormat('.supervisorrc.yml')).toBe('yaml');
+    expect(detectConfigFormat('.supervisorrc', '  // why\n{}')).toBe('json');
+    expect(detectConfigFormat('.supervisorrc', 'rules: {}')).toBe('yaml');
+  });
+
+  it('should read JSON with comments and trailing commas', async () => {
+    const path = write(
+      '.supervisorrc.json',
+      `{
+        // Coverage dropped to 0.8 while the legacy module is rewritten
+        "rules": { "coverage": { "id": "coverage", "value": 0.8, } },
+        /* shared with CI */
+        "ruleGroups": { "quality": ["coverage"] },
+      }`
+    );
+
+    expect(await readConfigFile(path)).toEqual(expected);
+  });
+
+  it('should read YAML from an extensionless .supervisorrc', async () => {
+    const path = write(
+      '.supervisorrc',
+      [
+        '# Coverage dropped to 0.8 while the legacy module is rewritten',
+        'rules:',
+        '  coverage:',
+        '    id: coverage',
+        '    value: 0.8',
+        'ruleGroups:',
+        '  quality: [coverage]',
+      ].join('\n')
+    );
+
+    expect(await readConfigFile(path)).toEqual(expected);
+  });
+
+  it('should import the default export of TypeScript configs', async () => {
+    const definePath = join(process.cwd(), 'src/config/defineConfig');
+    const path = write(
+      'supervisor.config.ts',
+      `import { defineConfig } from '${definePath}';
+      export default defineConfig({
+        extends: './baseline.json',
+        rules: { coverage: { id: 'coverage', value: 0.8 } },
+        ruleGroups: { quality: ['coverage'] },
+      });`
+    );
+
+    expect(await readConfigFile(path)).toEqual({
+      extends: './baseline.json',
+      ...expected,
+    });
+  });
+
+  it('should reload modules that changed on disk', async () => {
+    const path = write('supervisor.config.mjs', 'export default { a: 1 };');
+    expect(await readConfigFile(path)).toEqual({ a: 1 });
+
+    write('supervisor.config.mjs', 'export default { a: 2 };');
+    expect(await readConfigFile(path)).toEqual({ a: 2 });
+  });
+
+  it('should report parse errors with the format and path', async () => {
+    const path = write('.supervisorrc.yaml', 'rules: [unclosed');
+
+    const error = await readConfigFile(path).catch(e => e);
+
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect(error.message).toBe(`Invalid YAML in configuration file: ${path}`);
+  });
+});
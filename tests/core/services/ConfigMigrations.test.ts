@@ -0,0 +1,123 @@
+/**
+ * Configuration Migrations Tests
+ */
+
+import {
+  CONFIG_VERSION,
+  diffConfigs,
+  formatConfigDiff,
+  migrateConfig,
+  type ConfigMigration,
+} from '../../../src/core/services/ConfigMigrations';
+import { ConfigurationError } from '../../../src/core/errors/RuleEngineErrors';
+
+describe('ConfigMigrations', () => {
+  describe('migrateConfig', () => {
+    it('should prefix bare enforce entries in phases and environments', () => {
+      const config = {
+        phases: { coded: { enforce: ['coverage', 'quality', 'rule:lint'] } },
+        rules: { coverage: {}, lint: {} },
+        ruleGroups: { quality: ['lint'] },
+        environments: {
+          ci: { phases: { coded: { enforce: ['lint', 'unknown'] } } },
+        },
+      };
+
+      const result = migrateConfig(config);
+
+      expect(result.fromVersion).toBe(1);
+      expect(result.toVersion).toBe(CONFIG_VERSION);
+      expect(result.applied).toHaveLength(1);
+      expect(result.config).toMatchObject({
+        version: CONFIG_VERSION,
+        phases: {
+          coded: { enforce: ['rule:coverage', 'group:quality', 'rule:lint'] },
+        },
+        environments: {
+          ci: { phases: { coded: { enforce: ['rule:lint', 'unknown'] } } },
+        },
+      });
+      expect(config.phases.coded.enforce[0]).toBe('coverage');
+    });
+
+    it('should apply registered steps in order up to the target version', () => {
+      const migrations: ConfigMigration[] = [
+        {
+          from: 2,
+          description: 'two',
+          migrate: config => ({ ...config, steps: [...config.steps, 2] }),
+        },
+        {
+          from: 1,
+          description: 'one',
+          migrate: config => ({ ...config, steps: [1] }),
+        },
+      ];
+
+      const result = migrateConfig(
+        { $schema: './schema.json', rules: {} },
+        migrations,
+        3
+      );
+
+      expect(result.applied).toEqual(['one', 'two']);
+      expect(result.config).toEqual({
+        $schema: './schema.json',
+        version: 3,
+        rules: {},
+        steps: [1, 2],
+      });
+      expect(Object.keys(result.config).slice(0, 2)).toEqual([
+        '$schema',
+        'version',
+      ]);
+    });
+
+    it('should leave current configs untouched', () => {
+      const config = { version: CONFIG_VERSION, rules: {} };
+
+      expect(migrateConfig(config)).toEqual({
+        config,
+        fromVersion: CONFIG_VERSION,
+        toVersion: CONFIG_VERSION,
+        applied: [],
+      });
+    });
+
+    it('should reject newer, invalid and unmigratable versions', () => {
+      expect(() => migrateConfig({ version: CONFIG_VERSION + 1 })).toThrow(
+        ConfigurationError
+      );
+      expect(() => migrateConfig({ version: '2' })).toThrow(
+        'Invalid configuration version: "2"'
+      );
+      expect(() => migrateConfig({}, [], 2)).toThrow(
+        'No migration from configuration version 1'
+      );
+    });
+  });
+
+  describe('diffConfigs', () => {
+    it('should list added, removed and changed leaves', () => {
+      const changes = diffConfigs(
+        { a: 1, list: ['x', 'y'], nested: { gone: true } },
+        { a: 2, list: ['x'], nested: {}, added: 'new' }
+      );
+
+      expect(changes).toEqual([
+        { path: ['a'], before: 1, after: 2 },
+        { path: ['list', 1], before: 'y', after: undefined },
+        { path: ['nested', 'gone'], before: true, after: undefined },
+        { path: ['added'], before: undefined, after: 'new' },
+      ]);
+      expect(formatConfigDiff(changes)).toBe(
+        [
+          '~ a: 1 -> 2',
+          '- list.1: "y"',
+          '- nested.gone: true',
+          '+ added: "new"',
+        ].join('\n')
+      );
+    });
+  });
+});
@@ -0,0 +1,495 @@
+/**
+ * ConfigurationManager Tests
+ *
+ * Configurations are written to a temporary directory and loaded from disk
+ */
+
+import 'reflect-metadata';
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigurationManager } from '../../../src/core/services/ConfigurationManager';
+import { ConfigurationError } from '../../../src/core/errors/RuleEngineErrors';
+import { CONFIG_VERSION } from '../../../src/core/services/ConfigMigrations';
+import { lintConfig } from '../../../src/core/services/ConfigDiagnostics';
+import { RuleEngine } from '../../../src/core/services/RuleEngine';
+import { AuditLogService } from '../../../src/core/services/AuditLogService';
+import {
+  TestLogger,
+  TestPluginManager,
+  TestRuleExecutorFactory,
+} from '../../utils/RuleEngineTestUtils';
+
+const baseConfig = {
+  plan: { requiredSections: ['goal'] },
+  phases: {
+    coded: { enforce: ['rule:coverage'] },
+  },
+  rules: {
+    coverage: {
+      id: 'coverage',
+      type: 'threshold',
+      target: 'coverage',
+      value: 0.6,
+      enforcement: 'soft',
+    },
+  },
+  ruleGroups: {},
+  extensions: { plugins: [] },
+  defaults: { enforcement: 'soft' },
+  environments: {
+    production: {
+      rules: { coverage: { value: 0.9, enforcement: 'hard' } },
+      phases: { coded: { requireHumanApproval: true } },
+      defaults: { enforcement: 'hard' },
+    },
+    broken: {
+      rules: { coverage: { value: 5 } },
+    },
+  },
+};
+
+describe('ConfigurationManager', () => {
+  let workspace: string;
+  let configPath: string;
+  let manager: ConfigurationManager;
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'supervisor-config-'));
+    configPath = join(workspace, '.supervisorrc.json');
+    writeFileSync(configPath, JSON.stringify(baseConfig));
+    manager = new ConfigurationManager(new TestLogger());
+    delete process.env.SUPERVISOR_ENV;
+    delete process.env.NODE_ENV;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  describe('environment overlays', () => {
+    it('should use the base config when no environment is selected', async () => {
+      const config = await manager.loadConfig(configPath);
+
+      expect(manager.getEnvironment()).toBeNull();
+      expect(config.rules.coverage).toMatchObject({ value: 0.6 });
+      expect(config.environments).toBeUndefined();
+    });
+
+    it('should deep-merge the overlay selected with setEnvironment', async () => {
+      manager.setEnvironment('production');
+
+      const config = await manager.loadConfig(configPath);
+
+      expect(manager.getEnvironment()).toBe('production');
+      expect(config.rules.coverage).toEqual({
+        id: 'coverage',
+        type: 'threshold',
+        target: 'coverage',
+        value: 0.9,
+        enforcement: 'hard',
+      });
+      expect(config.phases.coded).toEqual({
+        enforce: ['rule:coverage'],
+        requirePlan: false,
+        requireHumanApproval: true,
+      });
+      expect(config.defaults.enforcement).toBe('hard');
+    });
+
+    it('should prefer --env over SUPERVISOR_ENV over NODE_ENV', async () => {
+      process.env.NODE_ENV = 'broken';
+      process.env.SUPERVISOR_ENV = 'production';
+      await manager.loadConfig(configPath);
+      expect(manager.getEnvironment()).toBe('production');
+
+      process.env.SUPERVISOR_ENV = 'staging';
+      await expect(manager.loadConfig(configPath)).rejects.toThrow(
+        "Unknown environment 'staging'. Available: production, broken"
+      );
+    });
+
+    it('should ignore NODE_ENV values without an overlay', async () => {
+      process.env.NODE_ENV = 'test';
+
+      const config = await manager.loadConfig(configPath);
+
+      expect(manager.getEnvironment()).toBeNull();
+      expect(config.rules.coverage).toMatchObject({ value: 0.6 });
+    });
+
+    it('should validate the merged config and name the environment', async () => {
+      manager.setEnvironment('broken');
+
+      const error = await manager.loadConfig(configPath).catch(e => e);
+
+      expect(error).toBeInstanceOf(ConfigurationError);
+      expect(error.message).toMatch(
+        /^Environment 'broken': Configuration validation failed: rules\.coverage\.value/
+      );
+    });
+
+    it('should keep overlays when flushing an overlaid config', async () => {
+      manager.setEnvironment('production');
+      await manager.loadConfig(configPath);
+
+      await manager.flush(configPath);
+
+      const written = JSON.parse(readFileSync(configPath, 'utf-8'));
+      expect(written.rules.coverage.value).toBe(0.6);
+      expect(Object.keys(written.environments)).toEqual([
+        'production',
+        'broken',
+      ]);
+    });
+  });
+
+  describe('extends', () => {
+    beforeEach(() => {
+      const { environments: _environments, ...baseline } = baseConfig;
+      writeFileSync(join(workspace, 'baseline.json'), JSON.stringify(baseline));
+    });
+
+    it('should layer the config over extended files and record provenance', async () => {
+      const team = {
+        extends: './baseline.json',
+        rules: { coverage: { value: 0.8 } },
+      };
+      writeFileSync(configPath, JSON.stringify(team));
+
+      const config = await manager.loadConfig(configPath);
+
+      expect(config.extends).toBe('./baseline.json');
+      expect(config.rules.coverage).toMatchObject({
+        value: 0.8,
+        enforcement: 'soft',
+      });
+      expect(manager.getProvenance()?.rules.coverage).toEqual([
+        join(workspace, 'baseline.json'),
+        configPath,
+      ]);
+
+      await manager.flush(configPath);
+      expect(JSON.parse(readFileSync(configPath, 'utf-8'))).toEqual({
+        version: CONFIG_VERSION,
+        ...team,
+      });
+    });
+
+    it('should apply environment overlays after extends', async () => {
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          extends: './baseline.json',
+          environments: baseConfig.environments,
+        })
+      );
+      manager.setEnvironment('production');
+
+      const config = await manager.loadConfig(configPath);
+
+      expect(config.rules.coverage).toMatchObject({ value: 0.9 });
+    });
+  });
+
+  describe('config formats', () => {
+    it('should validate YAML configs against the same schema', async () => {
+      const yamlPath = join(workspace, '.supervisorrc.yaml');
+      writeFileSync(
+        yamlPath,
+        [
+          'extends: ./baseline.json',
+          'rules:',
+          '  coverage:',
+          '    value: 5 # not a ratio',
+        ].join('\n')
+      );
+      writeFileSync(
+        join(workspace, 'baseline.json'),
+        JSON.stringify({ ...baseConfig, environments: undefined })
+      );
+
+      await expect(manager.loadConfig(yamlPath)).rejects.toThrow(
+        /^Configuration validation failed: rules\.coverage\.value/
+      );
+    });
+
+    it('should not overwrite configs that are not plain JSON', async () => {
+      const content = `// Thresholds agreed with QA\n${JSON.stringify(baseConfig)}`;
+      writeFileSync(configPath, content);
+      await manager.loadConfig(configPath);
+
+      await manager.flush(configPath);
+
+      expect(readFileSync(configPath, 'utf-8')).toBe(content);
+    });
+  });
+
+  describe('hot reload', () => {
+    const withCoverage = (value: number) => ({
+      ...baseConfig,
+      rules: {
+        coverage: { ...baseConfig.rules.coverage, value },
+      },
+    });
+
+    const waitFor = async (predicate: () => boolean, timeoutMs = 3000) => {
+      const deadline = Date.now() + timeoutMs;
+      while (!predicate()) {
+        if (Date.now() > deadline) throw new Error('Timed out waiting');
+        await new Promise(resolve => setTimeout(resolve, 25));
+      }
+    };
+
+    afterEach(() => {
+      manager.unwatch();
+    });
+
+    it('should swap in a valid configuration and notify listeners', async () => {
+      await manager.loadConfig(configPath);
+      const listener = jest.fn();
+      manager.onConfigChange(listener);
+
+      writeFileSync(configPath, JSON.stringify(withCoverage(0.75)));
+
+      expect(await manager.reloadConfig()).toBe(true);
+      expect(manager.getConfig().rules.coverage).toMatchObject({
+        value: 0.75,
+      });
+      expect(listener).toHaveBeenCalledWith(manager.getConfig());
+    });
+
+    it('should keep the previous configuration and log the error path when validation fails', async () => {
+      const logger = new TestLogger();
+      const warn = jest.spyOn(logger, 'warn');
+      manager = new ConfigurationManager(logger);
+      const previous = await manager.loadConfig(configPath);
+      const listener = jest.fn();
+      manager.onConfigChange(listener);
+
+      writeFileSync(configPath, JSON.stringify(withCoverage(5)));
+
+      expect(await manager.reloadConfig()).toBe(false);
+      expect(manager.getConfig()).toBe(previous);
+      expect(listener).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('Configuration change rejected'),
+        expect.objectContaining({
+          issues: [expect.objectContaining({ path: 'rules.coverage.value' })],
+        })
+      );
+    });
+
+    it('should reload when an extended file changes', async () => {
+      const baselinePath = join(workspace, 'baseline.json');
+      writeFileSync(baselinePath, JSON.stringify(withCoverage(0.6)));
+      writeFileSync(configPath, JSON.stringify({ extends: './baseline.json' }));
+      await manager.loadConfig(configPath);
+      manager.watch();
+
+      writeFileSync(baselinePath, JSON.stringify(withCoverage(0.7)));
+
+      await waitFor(
+        () =>
+          (manager.getConfig().rules.coverage as { value: number }).value ===
+          0.7
+      );
+    });
+  });
+
+  describe('semantic validation', () => {
+    it('should reject references to unknown rules at load time', async () => {
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          ...baseConfig,
+          phases: { coded: { enforce: ['rule:coverage', 'rule:coverag'] } },
+          ruleGroups: { quality: ['lint'] },
+        })
+      );
+
+      const error = await manager.loadConfig(configPath).catch(e => e);
+
+      expect(error).toBeInstanceOf(ConfigurationError);
+      expect(error.message).toBe(
+        "Configuration validation failed: Phase 'coded' enforces unknown rule 'coverag'. Did you mean 'rule:coverage'?; Rule group 'quality' references unknown rule 'lint'"
+      );
+      expect(manager.isConfigLoaded()).toBe(false);
+    });
+
+    it('should load configs with warnings and log them', async () => {
+      const logger = new TestLogger();
+      manager = new ConfigurationManager(logger);
+      writeFileSync(
+        configPath,
+        JSON.stringify({ ...baseConfig, phases: { coded: { enforce: [] } } })
+      );
+
+      await manager.loadConfig(configPath);
+
+      expect(logger.getLogsByLevel('warn')).toEqual([
+        "Configuration warning: Rule 'coverage' is not referenced by any phase, rule group or composite rule",
+      ]);
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('should locate issues in the config file without loading it', async () => {
+      const { environments: _environments, ...valid } = baseConfig;
+      writeFileSync(
+        configPath,
+        JSON.stringify(
+          { ...valid, phases: { coded: { enforce: ['rule:coverag'] } } },
+          null,
+          2
+        )
+      );
+
+      const report = await manager.diagnoseConfig(configPath);
+
+      expect(manager.isConfigLoaded()).toBe(false);
+      expect(report.valid).toBe(false);
+      expect(report.diagnostics).toEqual([
+        expect.objectContaining({
+          code: 'unknown-reference',
+          suggestion: 'rule:coverage',
+          file: configPath,
+          line: 10,
+          column: 9,
+        }),
+        expect.objectContaining({
+          severity: 'warning',
+          code: 'unused-rule',
+          path: ['rules', 'coverage'],
+        }),
+      ]);
+    });
+
+    it('should report parse errors with their position', async () => {
+      writeFileSync(configPath, '{\n  "plan": {,\n}');
+
+      const report = await manager.diagnoseConfig(configPath);
+
+      expect(report).toEqual({
+        valid: false,
+        diagnostics: [
+          expect.objectContaining({
+            code: 'parse-error',
+            file: configPath,
+            line: 2,
+            column: 12,
+          }),
+        ],
+      });
+    });
+  });
+
+  describe('default config', () => {
+    it('should point the default config at a generated JSON Schema', async () => {
+      const target = join(workspace, 'new', '.supervisorrc.json');
+      mkdirSync(join(workspace, 'new'));
+
+      await manager.createDefaultConfig(target);
+
+      const created = JSON.parse(readFileSync(target, 'utf-8'));
+      expect(created.$schema).toBe('./.supervisor/config.schema.json');
+      const schema = JSON.parse(
+        readFileSync(
+          join(workspace, 'new', '.supervisor', 'config.schema.json'),
+          'utf-8'
+        )
+      );
+      expect(schema.title).toBe('MCP Supervisor configuration');
+
+      const loaded = await manager.loadConfig(target);
+      expect(loaded.$schema).toBe('./.supervisor/config.schema.json');
+    });
+
+    it('should create a default config that lints clean and enforces its rules', async () => {
+      const target = join(workspace, 'new', '.supervisorrc.json');
+      mkdirSync(join(workspace, 'new'));
+      await manager.createDefaultConfig(target);
+
+      const config = await manager.loadConfig(target);
+      expect(lintConfig(config)).toEqual([]);
+
+      const ruleEngine = new RuleEngine(
+        manager,
+        new TestPluginManager(),
+        new TestRuleExecutorFactory(),
+        new TestLogger(),
+        new AuditLogService()
+      );
+      for (const [phase, { enforce }] of Object.entries(config.phases)) {
+        expect(await ruleEngine.getPhaseRules(phase)).toHaveLength(
+          enforce.length
+        );
+      }
+      expect(
+        (await ruleEngine.getPhaseRules('reviewed')).map(rule => rule.id)
+      ).toContain('security-scan');
+    });
+  });
+
+  describe('migrations', () => {
+    const legacyConfig = {
+      ...baseConfig,
+      phases: { coded: { enforce: ['coverage'] } },
+    };
+
+    beforeEach(() => {
+      writeFileSync(configPath, JSON.stringify(legacyConfig));
+    });
+
+    it('should preview a migration without writing', async () => {
+      const report = await manager.migrateConfigFile(configPath, {
+        dryRun: true,
+      });
+
+      expect(report).toMatchObject({
+        fromVersion: 1,
+        toVersion: CONFIG_VERSION,
+        written: false,
+      });
+      expect(report.diff).toBe(
+        `~ phases.coded.enforce.0: "coverage" -> "rule:coverage"\n+ version: ${CONFIG_VERSION}`
+      );
+      expect(JSON.parse(readFileSync(configPath, 'utf-8'))).toEqual(
+        legacyConfig
+      );
+    });
+
+    it('should migrate outdated configs on load after a backup', async () => {
+      const config = await manager.loadConfig(configPath);
+
+      expect(config.version).toBe(CONFIG_VERSION);
+      expect(config.phases.coded?.enforce).toEqual(['rule:coverage']);
+      expect(JSON.parse(readFileSync(`${configPath}.v1.bak`, 'utf-8'))).toEqual(
+        legacyConfig
+      );
+      expect(JSON.parse(readFileSync(configPath, 'utf-8'))).toMatchObject({
+        version: CONFIG_VERSION,
+        phases: { coded: { enforce: ['rule:coverage'] } },
+      });
+    });
+
+    it('should reject configs newer than the supervisor', async () => {
+      writeFileSync(
+        configPath,
+        JSON.stringify({ ...baseConfig, version: CONFIG_VERSION + 1 })
+      );
+
+      await expect(manager.loadConfig(configPath)).rejects.toThrow(
+        'is newer than the supported version'
+      );
+    });
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Phase Transition Service Tests
+ */
+
+import 'reflect-metadata';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RuleEngine } from '../../../src/core/services/RuleEngine';
+import { ContextStore } from '../../../src/core/services/ContextStore';
+import { AuditLogService } from '../../../src/core/services/AuditLogService';
+import { ApprovalService } from '../../../src/core/services/ApprovalService';
+import {
+  PhaseTransitionService,
+  getAllowedTransitions,
+  isReopenTransition,
+} from '../../../src/core/services/PhaseTransitionService';
+import {
+  PhaseNotFoundError,
+  PhaseTransitionError,
+} from '../../../src/core/errors/RuleEngineErrors';
+import {
+  SupervisorConfigSchema,
+  type SupervisorConfigType,
+} from '../../../src/core/schemas/RuleEngineSchemas';
+import {
+  TestConfigurationManager,
+  TestLogger,
+  TestPluginManager,
+  TestRuleExecutorFactory,
+} from '../../utils/RuleEngineTestUtils';
+
+const buildConfig = (
+  overrides: Record<string, unknown> = {}
+): SupervisorConfigType =>
+  SupervisorConfigSchema.parse({
+    plan: { requiredSections: ['goal'] },
+    phases: {
+      draft: {},
+      coded: { enforce: ['rule:no-todo'] },
+      reviewed: { requireHumanApproval: true },
+      production: {},
+    },
+    rules: {
+      'no-todo': {
+        id: 'no-todo',
+        type: 'pattern',
+        pattern: 'TODO',
+        target: 'code',
+        enforcement: 'hard',
+      },
+      'no-fixme': {
+        id: 'no-fixme',
+        type: 'pattern',
+        pattern: 'FIXME',
+        target: 'code',
+        enforcement: 'hard',
+      },
+    },
+    ruleGroups: {},
+    extensions: { plugins: [] },
+    defaults: { enforcement: 'hard' },
+    ...overrides,
+  });
+
+describe('PhaseTransitionService', () => {
+  let configManager: TestConfigurationManager;
+  let contextStore: ContextStore;
+  let auditLog: AuditLogService;
+  let approvals: ApprovalService;
+  let tempDir: string;
+  let service: PhaseTransitionService;
+
+  beforeEach(() => {
+    const logger = new TestLogger();
+    const pluginManager = new TestPluginManager();
+    configManager = new TestConfigurationManager();
+    configManager.setConfig(buildConfig());
+    contextStore = new ContextStore({
+      load: async () => [],
+      save: async () => {},
+    });
+    auditLog = new AuditLogService(logger);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transitions-'));
+    approvals = new ApprovalService(
+      path.join(tempDir, 'approvals.json'),
+      auditLog,
+      logger
+    );
+    const ruleEngine = new RuleEngine(
+      configManager,
+      pluginManager,
+      new TestRuleExecutorFactory(pluginManager),
+      logger,
+      auditLog
+    );
+    service = new PhaseTransitionService(
+      ruleEngine,
+      configManager,
+      contextStore,
+      auditLog,
+      approvals,
+      logger
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should start in the first phase and advance in declaration order', async () => {
+    expect(await service.getCurrentPhase()).toEqual({ phase: 'draft' });
+    expect(await service.listTransitions()).toEqual(['coded']);
+    expect(await service.listTransitions('reviewed')).toEqual([
+      'production',
+      'draft',
+      'coded',
+    ]);
+  });
+
+  it('should refuse transitions the workflow does not allow', async () => {
+    await expect(service.requestTransition('production')).rejects.toThrow(
+      PhaseTransitionError
+    );
+    await expect(service.requestTransition('shipped')).rejects.toThrow(
+      PhaseNotFoundError
+    );
+    expect((await service.getCurrentPhase()).phase).toBe('draft');
+  });
+
+  it('should only promote once the target phase rules pass', async () => {
+    const blocked = await service.requestTransition('coded', {
+      code: '// TODO: finish',
+    });
+
+    expect(blocked).toMatchObject({
+      status: 'blocked',
+      phase: 'draft',
+      failures: [expect.objectContaining({ ruleId: 'no-todo' })],
+    });
+    expect(auditLog.findDeviations()).toHaveLength(1);
+
+    const completed = await service.requestTransition('coded', {
+      code: 'done()',
+    });
+
+    expect(completed.status).toBe('completed');
+    expect(await service.getCurrentPhase()).toMatchObject({
+      phase: 'coded',
+      previous: 'draft',
+    });
+  });
+
+  it('should wait for a human approval when the target phase needs one', async () => {
+    await service.requestTransition('coded', { code: 'done()' });
+
+    const pending = await service.requestTransition('reviewed');
+    expect(pending).toMatchObject({
+      status: 'awaiting-approval',
+      phase: 'coded',
+      approval: { phase: 'reviewed', from: 'coded', status: 'pending' },
+    });
+    expect(pending.approval!.phaseResult).toEqual(pending.phaseResult);
+
+    await approvals.reject(pending.approval!.id, 'lead', 'Not yet');
+    const rejected = await service.requestTransition('reviewed');
+    expect(rejected.status).toBe('awaiting-approval');
+    expect(rejected.approval!.id).not.toBe(pending.approval!.id);
+
+    await approvals.approve(rejected.approval!.id, 'lead');
+    const approved = await service.requestTransition('reviewed');
+
+    expect(approved.status).toBe('completed');
+    expect(approved.approval!.consumedAt).toBeDefined();
+    expect(await approvals.findApproval('reviewed')).toBeNull();
+  });
+
+  it('should return to earlier phases without running rules', async () => {
+    await service.requestTransition('coded', { code: 'done()' });
+
+    const result = await service.requestTransition('draft', {
+      code: '// TODO: reopened',
+    });
+
+    expect(result).toMatchObject({ status: 'completed', phase: 'draft' });
+    expect(result.phaseResult).toBeUndefined();
+  });
+
+  describe('with a workflow', () => {
+    beforeEach(() => {
+      configManager.setConfig(
+        buildConfig({
+          workflow: {
+            initial: 'coded',
+            phases: {
+              coded: { next: ['production'], onExit: ['rule:no-fixme'] },
+            },
+          },
+        })
+      );
+    });
+
+    it('should follow the configured transitions and exit rules', async () => {
+      expect(await service.getCurrentPhase()).toEqual({ phase: 'coded' });
+      expect(await service.listTransitions()).toEqual(['production']);
+      expect(await service.listTransitions('production')).toEqual([]);
+
+      const blocked = await service.requestTransition('production', {
+        code: '// FIXME',
+      });
+      expect(blocked.status).toBe('blocked');
+      expect(blocked.exitResults).toEqual([
+        expect.objectContaining({ ruleId: 'no-fixme', passed: false }),
+      ]);
+
+      const completed = await service.requestTransition('production', {
+        code: 'done()',
+      });
+      expect(completed.status).toBe('completed');
+    });
+  });
+
+  describe('with a workflow ordered unlike the phases', () => {
+    // `production` is declared last but is the workflow's second step
+    const workflow = {
+      initial: 'draft',
+      phases: {
+        draft: { next: ['production'] },
+        production: { next: ['coded', 'draft'] },
+        coded: { next: ['reviewed', 'production'] },
+        reviewed: { next: ['coded'] },
+      },
+    };
+
+    beforeEach(() => {
+      configManager.setConfig(buildConfig({ workflow }));
+    });
+
+    it('should guard moves to phases declared earlier', async () => {
+      await service.requestTransition('production');
+
+      const blocked = await service.requestTransition('coded', {
+        code: '// TODO: finish',
+      });
+      expect(blocked).toMatchObject({
+        status: 'blocked',
+        phase: 'production',
+        failures: [expect.objectContaining({ ruleId: 'no-todo' })],
+      });
+
+      await service.requestTransition('coded', { code: 'done()' });
+      const pending = await service.requestTransition('reviewed');
+      expect(pending.status).toBe('awaiting-approval');
+    });
+
+    it('should only reopen phases closer to the initial phase', () => {
+      const config = buildConfig({ workflow });
+
+      expect(isReopenTransition(config, 'production', 'draft')).toBe(true);
+      expect(isReopenTransition(config, 'reviewed', 'coded')).toBe(true);
+      expect(isReopenTransition(config, 'coded', 'production')).toBe(true);
+      expect(isReopenTransition(config, 'production', 'coded')).toBe(false);
+      expect(isReopenTransition(config, 'draft', 'production')).toBe(false);
+    });
+  });
+
+  it('should list declared transitions with getAllowedTransitions', () => {
+    const config = buildConfig();
+
+    expect(getAllowedTransitions(config, 'draft')).toEqual(['coded']);
+    expect(getAllowedTransitions(config, 'unknown')).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Project Detection Tests
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { detectProject } from '../../../src/core/services/ProjectDetection';
+
+describe('ProjectDetection', () => {
+  let workspace: string;
+
+  const write = (path: string, content: unknown = '') => {
+    const fullPath = join(workspace, path);
+    mkdirSync(dirname(fullPath), { recursive: true });
+    writeFileSync(
+      fullPath,
+      typeof content === 'string' ? content : JSON.stringify(content)
+    );
+  };
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'supervisor-detect-'));
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should detect a pnpm monorepo with vitest, CI and git hooks', () => {
+    write('package.json', {
+      packageManager: 'pnpm@9.1.0',
+      devDependencies: { vitest: '^1.0.0', typescript: '^5.0.0' },
+    });
+    write('pnpm-workspace.yaml', 'packages:\n  - apps/*\n  - libs/*\n');
+    write('.github/workflows/release.yml');
+    write('.github/workflows/ci.yaml');
+    write('.gitlab-ci.yml');
+    mkdirSync(join(workspace, '.husky'));
+
+    expect(detectProject(workspace)).toEqual({
+      packageManager: 'pnpm',
+      testFramework: 'vitest',
+      typescript: true,
+      monorepo: { tool: 'pnpm', packages: ['apps/*', 'libs/*'] },
+      ciFiles: [
+        '.github/workflows/ci.yaml',
+        '.github/workflows/release.yml',
+        '.gitlab-ci.yml',
+      ],
+      gitHooks: 'husky',
+    });
+  });
+
+  it('should fall back to lockfiles, config files and package.json workspaces', () => {
+    write('package.json', { workspaces: { packages: ['modules/*'] } });
+    write('yarn.lock');
+    write('jest.config.js');
+    write('tsconfig.json', {});
+    write('lefthook.yml');
+
+    expect(detectProject(workspace)).toMatchObject({
+      packageManager: 'yarn',
+      testFramework: 'jest',
+      typescript: true,
+      monorepo: { tool: 'workspaces', packages: ['modules/*'] },
+      gitHooks: 'lefthook',
+    });
+  });
+
+  it('should report nothing for an empty workspace', () => {
+    expect(detectProject(workspace)).toEqual({
+      packageManager: null,
+      testFramework: null,
+      typescript: false,
+      monorepo: null,
+      ciFiles: [],
+      gitHooks: null,
+    });
+  });
+});
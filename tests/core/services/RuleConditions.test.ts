@@ -0,0 +1,90 @@
+/**
+ * Rule Condition Tests
+ */
+
+import { evaluateRuleCondition } from '../../../src/core/services/RuleConditions';
+import type { RuleExecutionContextType } from '../../../src/core/schemas/RuleEngineSchemas';
+
+const context: RuleExecutionContextType = {
+  phase: 'coded',
+  target: 'packages/web',
+  files: ['packages/web/src/App.tsx', 'README.md'],
+  metrics: { coverage: 0.72 },
+  metadata: { branch: 'main', ci: { provider: 'github' } },
+};
+
+describe('evaluateRuleCondition', () => {
+  it('should apply rules without a condition', () => {
+    expect(evaluateRuleCondition(undefined, context)).toEqual([]);
+  });
+
+  it('should match changed files against globs', () => {
+    expect(
+      evaluateRuleCondition({ files: 'packages/web/**/*.tsx' }, context)
+    ).toEqual([]);
+    expect(
+      evaluateRuleCondition(
+        { files: ['packages/api/**', 'services/**'] },
+        context
+      )
+    ).toEqual(['files: packages/api/**, services/**']);
+  });
+
+  it('should not skip on file clauses when changed files are unknown', () => {
+    const { files: _files, ...withoutFiles } = context;
+
+    expect(
+      evaluateRuleCondition({ files: 'packages/api/**' }, withoutFiles)
+    ).toEqual([]);
+  });
+
+  it('should match the target by glob or exact value', () => {
+    expect(evaluateRuleCondition({ target: 'packages/*' }, context)).toEqual(
+      []
+    );
+    expect(
+      evaluateRuleCondition({ target: ['code', 'plan'] }, context)
+    ).toEqual(['target: code, plan']);
+  });
+
+  it('should compare metadata values including nested paths and lists', () => {
+    expect(
+      evaluateRuleCondition(
+        {
+          metadata: {
+            branch: ['main', 'release'],
+            'ci.provider': 'github',
+          },
+        },
+        context
+      )
+    ).toEqual([]);
+    expect(
+      evaluateRuleCondition({ metadata: { branch: 'develop' } }, context)
+    ).toEqual(['metadata.branch']);
+  });
+
+  it('should compare metrics and treat missing metrics as unmet', () => {
+    expect(
+      evaluateRuleCondition(
+        { metrics: { coverage: { gte: 0.5, lt: 0.8 } } },
+        context
+      )
+    ).toEqual([]);
+    expect(
+      evaluateRuleCondition(
+        { metrics: { coverage: 0.9, complexity: { lt: 10 } } },
+        context
+      )
+    ).toEqual(['metrics.coverage', 'metrics.complexity']);
+  });
+
+  it('should require every clause to hold', () => {
+    expect(
+      evaluateRuleCondition(
+        { files: 'packages/web/**', metadata: { branch: 'develop' } },
+        context
+      )
+    ).toEqual(['metadata.branch']);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Rule Dependency Graph Tests
+ */
+
+import {
+  findDependencyCycle,
+  orderRulesByDependencies,
+  validateRuleDependencies,
+} from '../../../src/core/services/RuleDependencyGraph';
+import type { SupervisorRuleType } from '../../../src/core/schemas/RuleEngineSchemas';
+import { ConfigurationError } from '../../../src/core/errors/RuleEngineErrors';
+
+const rule = (id: string, dependsOn?: string[]): SupervisorRuleType => ({
+  id,
+  type: 'pattern',
+  pattern: '.',
+  target: 'code',
+  enforcement: 'hard',
+  dependsOn,
+});
+
+const toRecord = (rules: SupervisorRuleType[]) =>
+  Object.fromEntries(rules.map(r => [r.id, r]));
+
+describe('RuleDependencyGraph', () => {
+  it('should accept an acyclic graph', () => {
+    const rules = toRecord([
+      rule('lint'),
+      rule('tests', ['lint']),
+      rule('coverage', ['tests', 'lint']),
+    ]);
+
+    expect(findDependencyCycle(rules)).toBeNull();
+    expect(() => validateRuleDependencies(rules)).not.toThrow();
+  });
+
+  it('should report the rules forming a cycle', () => {
+    const rules = toRecord([
+      rule('a', ['b']),
+      rule('b', ['c']),
+      rule('c', ['a']),
+      rule('d', ['a']),
+    ]);
+
+    expect(findDependencyCycle(rules)).toEqual(['a', 'b', 'c', 'a']);
+    expect(() => validateRuleDependencies(rules)).toThrow(
+      'Rule dependency cycle detected: a -> b -> c -> a'
+    );
+  });
+
+  it('should detect self-dependencies', () => {
+    expect(findDependencyCycle(toRecord([rule('a', ['a'])]))).toEqual([
+      'a',
+      'a',
+    ]);
+  });
+
+  it('should reject dependencies on unknown rules', () => {
+    const rules = toRecord([rule('coverage', ['tests'])]);
+
+    expect(() => validateRuleDependencies(rules)).toThrow(ConfigurationError);
+    expect(() => validateRuleDependencies(rules)).toThrow(
+      "Rule 'coverage' references unknown rule(s): tests"
+    );
+  });
+
+  it('should reject cycles through composite rules', () => {
+    const rules = toRecord([
+      rule('coverage', ['quality']),
+      {
+        id: 'quality',
+        type: 'composite',
+        operator: 'any',
+        rules: ['coverage', 'mutation'],
+        enforcement: 'hard',
+      },
+      rule('mutation'),
+    ]);
+
+    expect(() => validateRuleDependencies(rules)).toThrow(
+      'Rule dependency cycle detected: coverage -> quality -> coverage'
+    );
+  });
+
+  it('should order prerequisites first and keep the original order otherwise', () => {
+    const ordered = orderRulesByDependencies([
+      rule('report', ['coverage']),
+      rule('docs'),
+      rule('coverage', ['tests']),
+      rule('tests'),
+      rule('docs'),
+    ]);
+
+    expect(ordered.map(r => r.id)).toEqual([
+      'tests',
+      'coverage',
+      'report',
+      'docs',
+    ]);
+  });
+
+  it('should ignore dependencies outside the given rules', () => {
+    const ordered = orderRulesByDependencies([
+      rule('coverage', ['tests']),
+      rule('lint'),
+    ]);
+
+    expect(ordered.map(r => r.id)).toEqual(['coverage', 'lint']);
+  });
+});
@@ -0,0 +1,616 @@
+/**
+ * Built-in Rule Executor Tests
+ *
+ * Executors run against real workspaces created in a temporary directory
+ */
+
+import 'reflect-metadata';
+import { execFileSync } from 'child_process';
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import {
+  AIRuleExecutor,
+  CommitMessageRuleExecutor,
+  PatternRuleExecutor,
+  SecurityPostureRuleExecutor,
+  StructureRuleExecutor,
+} from '../../../src/core/services/RuleExecutors';
+import {
+  AiAgentProviderRegistry,
+  StubAiAgentProvider,
+  type IAiAgentProvider,
+} from '../../../src/core/services/AiAgentProviders';
+import type {
+  AIRuleType,
+  CommitMessageRuleType,
+  PatternRuleType,
+  SecurityPostureRuleType,
+  StructureRuleType,
+} from '../../../src/core/schemas/RuleEngineSchemas';
+import {
+  RuleExecutionError,
+  RuleValidationError,
+} from '../../../src/core/errors/RuleEngineErrors';
+import { TestLogger } from '../../utils/RuleEngineTestUtils';
+
+const git = (cwd: string, ...args: string[]): string =>
+  execFileSync('git', args, { cwd, encoding: 'utf-8' });
+
+const commit = (cwd: string, message: string): void => {
+  writeFileSync(join(cwd, 'file.txt'), `${message}\n`, { flag: 'a' });
+  git(cwd, 'add', '.');
+  git(cwd, 'commit', '-q', '-m', message);
+};
+
+describe('CommitMessageRuleExecutor', () => {
+  const rule: CommitMessageRuleType = {
+    id: 'conventional-commits',
+    type: 'commit-message',
+    enforcement: 'hard',
+    pattern: '^(feat|fix|chore|docs|refactor|test)(\\(.+\\))?: .+',
+  };
+
+  let executor: CommitMessageRuleExecutor;
+  let workspace: string;
+
+  beforeEach(() => {
+    executor = new CommitMessageRuleExecutor(new TestLogger());
+    workspace = mkdtempSync(join(tmpdir(), 'supervisor-commits-'));
+    git(workspace, 'init', '-q');
+    git(workspace, 'config', 'user.email', 'dev@example.com');
+    git(workspace, 'config', 'user.name', 'Dev');
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should validate a message supplied in context metadata', async () => {
+    const passing = await executor.executeRule(rule, {
+      phase: 'coded',
+      target: 'commit',
+      metadata: { commitMessage: 'feat(api): add endpoint' },
+    });
+    const failing = await executor.executeRule(rule, {
+      phase: 'coded',
+      target: 'commit',
+      metadata: { commitMessage: 'added stuff' },
+    });
+
+    expect(passing.passed).toBe(true);
+    expect(passing.data?.source).toBe('metadata');
+    expect(failing.passed).toBe(false);
+    expect(failing.score).toBe(0);
+  });
+
+  it('should read the HEAD commit from the workspace repository', async () => {
+    commit(workspace, 'fix: handle empty input');
+
+    const result = await executor.executeRule(rule, {
+      phase: 'coded',
+      target: 'commit',
+      workspaceRoot: workspace,
+    });
+
+    expect(result.passed).toBe(true);
+    expect(result.data?.source).toBe('git:HEAD');
+    expect(result.data?.commits).toHaveLength(1);
+  });
+
+  it('should report per-commit violations for a range', async () => {
+    commit(workspace, 'chore: initial commit');
+    commit(workspace, 'feat: add parser');
+    commit(workspace, 'wip');
+    commit(workspace, 'docs: describe parser\n\nLonger body text.');
+
+    const result = await executor.executeRule(rule, {
+      phase: 'reviewed',
+      target: 'commit',
+      workspaceRoot: workspace,
+      metadata: { commitRange: 'HEAD~3..HEAD' },
+    });
+
+    const violations = result.data?.violations as Array<{
+      hash: string;
+      subject: string;
+    }>;
+    expect(result.passed).toBe(false);
+    expect(result.score).toBeCloseTo(2 / 3);
+    expect(violations).toHaveLength(1);
+    expect(violations[0]?.subject).toBe('wip');
+    expect(violations[0]?.hash).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('should not pass a range that looks like an option to git', async () => {
+    commit(workspace, 'feat: add parser');
+    const output = join(workspace, 'written-by-git.txt');
+
+    await expect(
+      executor.executeRule(rule, {
+        phase: 'reviewed',
+        target: 'commit',
+        workspaceRoot: workspace,
+        metadata: { commitRange: `--output=${output}` },
+      })
+    ).rejects.toThrow("Invalid commit range '--output=");
+    expect(existsSync(output)).toBe(false);
+  });
+
+  it('should reject invalid patterns', async () => {
+    await expect(
+      executor.validateRule({ ...rule, pattern: '(unclosed' })
+    ).rejects.toBeInstanceOf(RuleValidationError);
+  });
+
+  it('should fail with an execution error outside a git repository', async () => {
+    const notARepo = mkdtempSync(join(tmpdir(), 'supervisor-norepo-'));
+    try {
+      await expect(
+        executor.executeRule(rule, {
+          phase: 'coded',
+          target: 'commit',
+          workspaceRoot: notARepo,
+        })
+      ).rejects.toBeInstanceOf(RuleExecutionError);
+    } finally {
+      rmSync(notARepo, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('PatternRuleExecutor', () => {
+  const rule: PatternRuleType = {
+    id: 'no-console',
+    type: 'pattern',
+    enforcement: 'hard',
+    pattern: 'console\\.log',
+    target: 'code',
+    forbid: true,
+    fix: 'Use the injected logger',
+  };
+
+  let executor: PatternRuleExecutor;
+  let workspace: string;
+
+  beforeEach(() => {
+    executor = new PatternRuleExecutor(new TestLogger());
+    workspace = mkdtempSync(join(tmpdir(), 'supervisor-pattern-'));
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should locate every match of a forbidden pattern in code', async () => {
+    const result = await executor.executeRule(rule, {
+      code: 'const a = 1;\n  console.log(a);\nconsole.log(a, a);',
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.violations).toEqual([
+      {
+        ruleId: 'no-console',
+        severity: 'error',
+        message: 'Forbidden pattern console\\.log found',
+        range: {
+          start: { line: 2, column: 3 },
+          end: { line: 2, column: 14 },
+        },
+        snippet: 'console.log(a);',
+        fix: 'Use the injected logger',
+      },
+      expect.objectContaining({
+        range: {
+          start: { line: 3, column: 1 },
+          end: { line: 3, column: 12 },
+        },
+      }),
+    ]);
+  });
+
+  it('should report a missing required pattern once per file', async () => {
+    writeFileSync(join(workspace, 'a.ts'), '// @license MIT\n');
+    writeFileSync(join(workspace, 'b.ts'), 'export {};\n');
+
+    const result = await executor.executeRule(
+      {
+        ...rule,
+        pattern: '@license',
+        target: 'files',
+        enforcement: 'soft',
+        forbid: undefined,
+        fix: undefined,
+      },
+      {
+        phase: 'coded',
+        target: 'code',
+        workspaceRoot: workspace,
+        files: ['a.ts', 'b.ts', 'deleted.ts'],
+      }
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.data?.files).toEqual(['a.ts', 'b.ts']);
+    expect(result.violations).toEqual([
+      {
+        ruleId: 'no-console',
+        severity: 'warning',
+        message: 'Required pattern @license not found',
+        file: 'b.ts',
+      },
+    ]);
+  });
+
+  it('should name the file of matches in changed files', async () => {
+    writeFileSync(join(workspace, 'a.ts'), 'log();\nconsole.log(1);\n');
+
+    const result = await executor.executeRule(
+      { ...rule, target: 'files' },
+      {
+        phase: 'coded',
+        target: 'code',
+        workspaceRoot: workspace,
+        files: ['a.ts'],
+      }
+    );
+
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        file: 'a.ts',
+        range: { start: { line: 2, column: 1 }, end: { line: 2, column: 12 } },
+      }),
+    ]);
+  });
+
+  it('should not read files outside the workspace', async () => {
+    const outside = mkdtempSync(join(tmpdir(), 'supervisor-outside-'));
+    try {
+      writeFileSync(join(outside, 'secret.txt'), 'console.log(token);\n');
+      symlinkSync(join(outside, 'secret.txt'), join(workspace, 'link.txt'));
+
+      const result = await executor.executeRule(
+        { ...rule, target: 'files' },
+        {
+          phase: 'coded',
+          target: 'code',
+          workspaceRoot: workspace,
+          files: [
+            join(outside, 'secret.txt'),
+            `../${basename(outside)}/secret.txt`,
+            'link.txt',
+          ],
+        }
+      );
+
+      expect(result.passed).toBe(true);
+      expect(result.violations).toEqual([]);
+      expect(result.data?.files).toEqual([]);
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('StructureRuleExecutor', () => {
+  let executor: StructureRuleExecutor;
+  let workspace: string;
+
+  const touch = (path: string): void => {
+    const fullPath = join(workspace, path);
+    mkdirSync(join(fullPath, '..'), { recursive: true });
+    writeFileSync(fullPath, '');
+  };
+
+  const run = (rule: Partial<StructureRuleType>) =>
+    executor.executeRule(
+      {
+        id: 'structure',
+        type: 'structure',
+        enforcement: 'hard',
+        requiredFiles: [],
+        ...rule,
+      },
+      { phase: 'planned', target: 'structure', workspaceRoot: workspace }
+    );
+
+  beforeEach(() => {
+    executor = new StructureRuleExecutor(new TestLogger());
+    workspace = mkdtempSync(join(tmpdir(), 'supervisor-structure-'));
+    touch('README.md');
+    touch('src/index.ts');
+    touch('packages/core/README.md');
+    touch('packages/core/tests/core.test.ts');
+    touch('packages/cli/src/main.ts');
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should pass when literal files and directories exist', async () => {
+    const result = await run({
+      requiredFiles: ['README.md', './src/index.ts'],
+      requiredDirectories: ['src/', 'packages'],
+    });
+
+    expect(result.passed).toBe(true);
+    expect(result.message).toBe('Structure is valid');
+  });
+
+  it('should report missing files and directories', async () => {
+    const result = await run({
+      requiredFiles: ['README.md', 'LICENSE'],
+      requiredDirectories: ['docs'],
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.data?.missingFiles).toEqual(['LICENSE']);
+    expect(result.data?.missingDirs).toEqual(['docs']);
+    expect(result.message).toBe('Missing: LICENSE, docs');
+  });
+
+  it('should resolve glob patterns', async () => {
+    const result = await run({
+      requiredFiles: ['**/*.test.ts', 'src/*.{ts,js}'],
+      requiredDirectories: ['packages/*/src'],
+    });
+
+    expect(result.passed).toBe(true);
+  });
+
+  it('should check every directory matched by forEach', async () => {
+    const result = await run({
+      forEach: 'packages/*',
+      requiredFiles: ['README.md'],
+      requiredDirectories: ['tests'],
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.data?.checkedDirectories).toEqual(
+      expect.arrayContaining(['packages/core', 'packages/cli'])
+    );
+    expect(result.data?.missingFiles).toEqual(['packages/cli/README.md']);
+    expect(result.data?.missingDirs).toEqual(['packages/cli/tests']);
+  });
+
+  it('should report forbidden paths that exist', async () => {
+    touch('.env');
+    const result = await run({ forbiddenPaths: ['.env', '**/*.log'] });
+
+    expect(result.passed).toBe(false);
+    expect(result.data?.forbiddenFound).toEqual(['.env']);
+  });
+
+  it('should reject rules without any declared paths', async () => {
+    await expect(run({})).rejects.toBeInstanceOf(RuleValidationError);
+  });
+});
+
+describe('SecurityPostureRuleExecutor', () => {
+  let executor: SecurityPostureRuleExecutor;
+  let workspace: string;
+
+  const write = (path: string, content: string): void => {
+    const fullPath = join(workspace, path);
+    mkdirSync(join(fullPath, '..'), { recursive: true });
+    writeFileSync(fullPath, content);
+  };
+
+  const run = (check: string) => {
+    const rule: SecurityPostureRuleType = {
+      id: 'security',
+      type: 'security-posture',
+      enforcement: 'hard',
+      check,
+    };
+    return executor.executeRule(rule, {
+      phase: 'coded',
+      target: 'security',
+      workspaceRoot: workspace,
+    });
+  };
+
+  beforeEach(() => {
+    executor = new SecurityPostureRuleExecutor(new TestLogger());
+    workspace = mkdtempSync(join(tmpdir(), 'supervisor-security-'));
+    git(workspace, 'init', '-q');
+    write('package.json', '{ "name": "app" }\n');
+    write('src/index.ts', 'export const answer = 42;\n');
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should pass a clean workspace', async () => {
+    write('package-lock.json', '{}');
+    git(workspace, 'add', '.');
+
+    const result = await run('all');
+
+    expect(result.passed).toBe(true);
+    expect(result.data?.findings).toEqual([]);
+  });
+
+  it('should report committed secrets with file and line', async () => {
+    // Assembled at runtime so this file does not itself contain a token
+    const awsKey = 'AKIA' + 'Q3EGRFXK7ZPLM2TB';
+    const apiKey = 'k9' + 'Xf2LqP8vZr4TnB7w';
+    write(
+      'src/config.ts',
+      `const region = 'us-east-1';\nconst id = '${awsKey}';\nexport const apiKey = '${apiKey}';\n`
+    );
+    write('src/constants.ts', "export const token = 'aaaaaaaaaaaaaaaa';\n");
+    git(workspace, 'add', '.');
+
+    const result = await run('secrets');
+    const findings = result.data?.findings as Array<{
+      file: string;
+      line: number;
+    }>;
+
+    expect(result.passed).toBe(false);
+    expect(findings.map(({ file, line }) => `${file}:${line}`)).toEqual([
+      'src/config.ts:2',
+      'src/config.ts:3',
+    ]);
+  });
+
+  it('should report tracked env files but allow templates', async () => {
+    write('.env', 'DEBUG=1\n');
+    write('.env.example', 'DEBUG=\n');
+    git(workspace, 'add', '.');
+
+    const result = await run('tracked-env-files');
+
+    expect(result.passed).toBe(false);
+    expect(result.data?.findings).toEqual([
+      expect.objectContaining({ file: '.env', check: 'tracked-env-files' }),
+    ]);
+  });
+
+  it('should not report env files outside a git repository', async () => {
+    rmSync(join(workspace, '.git'), { recursive: true, force: true });
+    write('.env', 'DEBUG=1\n');
+
+    const result = await run('tracked-env-files');
+
+    expect(result.passed).toBe(true);
+    expect(result.data?.findings).toEqual([]);
+  });
+
+  it('should run a comma-separated list of checks', async () => {
+    write(
+      'package.json',
+      '{\n  "scripts": {\n    "postinstall": "node setup.js"\n  }\n}\n'
+    );
+
+    const result = await run('install-scripts, lockfile');
+    const findings = result.data?.findings as Array<{
+      check: string;
+      line?: number;
+    }>;
+
+    expect(result.data?.checks).toEqual(['install-scripts', 'lockfile']);
+    expect(findings.map(finding => finding.check)).toEqual([
+      'install-scripts',
+      'lockfile',
+    ]);
+    expect(findings[0]?.line).toBe(3);
+    expect(result.message).toBe(
+      '2 security finding(s) from: install-scripts, lockfile'
+    );
+  });
+
+  if (process.platform !== 'win32') {
+    it('should report world-writable files', async () => {
+      write('shared.sh', '#!/bin/sh\n');
+      chmodSync(join(workspace, 'shared.sh'), 0o777);
+
+      const result = await run('world-writable');
+
+      expect(result.passed).toBe(false);
+      expect(result.data?.findings).toEqual([
+        expect.objectContaining({ file: 'shared.sh', severity: 'medium' }),
+      ]);
+    });
+  }
+
+  it('should reject unknown checks', async () => {
+    await expect(run('dependency-scan')).rejects.toBeInstanceOf(
+      RuleValidationError
+    );
+  });
+});
+
+describe('AIRuleExecutor', () => {
+  const rule: AIRuleType = {
+    id: 'plan-review',
+    type: 'ai',
+    agent: 'copilot',
+    strategy: 'refactor',
+    instruction: 'The plan must not contain open TODOs',
+    target: 'plan',
+    enforcement: 'hard',
+    refactorAllowed: false,
+  };
+
+  let providers: AiAgentProviderRegistry;
+  let executor: AIRuleExecutor;
+
+  beforeEach(() => {
+    providers = new AiAgentProviderRegistry();
+    providers.register('copilot', new StubAiAgentProvider());
+    executor = new AIRuleExecutor(new TestLogger(), providers);
+  });
+
+  it('should evaluate target content resolved from metadata', async () => {
+    const passing = await executor.executeRule(rule, {
+      phase: 'planned',
+      target: 'plan',
+      metadata: { plan: '## Goal\nShip it' },
+    });
+    const failing = await executor.executeRule(
+      { ...rule, message: 'Plan is incomplete' },
+      { phase: 'planned', target: 'plan', metadata: { plan: 'TODO' } }
+    );
+
+    expect(passing.passed).toBe(true);
+    expect(passing.data?.provider).toBe('stub');
+    expect(failing.passed).toBe(false);
+    expect(failing.message).toBe('Plan is incomplete');
+    expect(failing.data?.explanation).toBe('Content contains TODO');
+    expect(failing.data?.suggestions).toEqual(['Resolve TODO markers']);
+  });
+
+  it('should only expose refactored content when refactoring is allowed', async () => {
+    const refactoring: IAiAgentProvider = {
+      name: 'refactoring',
+      evaluate: async () => ({
+        passed: false,
+        message: 'rewrite needed',
+        suggestions: [],
+        refactoredContent: 'const x = 1;',
+      }),
+    };
+    providers.register('copilot', refactoring);
+    const context = { phase: 'coded', target: 'code', code: 'var x = 1;' };
+
+    const denied = await executor.executeRule(
+      { ...rule, target: 'code' },
+      context
+    );
+    const allowed = await executor.executeRule(
+      { ...rule, target: 'code', refactorAllowed: true },
+      context
+    );
+
+    expect(denied.data?.refactoredContent).toBeUndefined();
+    expect(allowed.data?.refactoredContent).toBe('const x = 1;');
+    expect(allowed.score).toBe(0);
+  });
+
+  it('should fail when no provider serves the agent', async () => {
+    await expect(
+      executor.executeRule(
+        { ...rule, agent: 'unknown' },
+        { phase: 'planned', target: 'plan', metadata: { plan: 'ok' } }
+      )
+    ).rejects.toThrow(/No AI agent provider for agent 'unknown'/);
+  });
+
+  it('should fail when the target is missing from the context', async () => {
+    await expect(
+      executor.executeRule(rule, { phase: 'planned', target: 'plan' })
+    ).rejects.toBeInstanceOf(RuleExecutionError);
+  });
+});
@@ -0,0 +1,194 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  RuleResultCache,
+  computeRuleCacheKey,
+  isCacheableRule,
+} from '../../../src/core/services/RuleResultCache';
+import type {
+  RuleExecutionResult,
+  SupervisorRuleType,
+} from '../../../src/core/schemas/RuleEngineSchemas';
+import { TestLogger } from '../../utils/RuleEngineTestUtils';
+
+const rule: SupervisorRuleType = {
+  id: 'no-todo',
+  type: 'pattern',
+  pattern: 'TODO',
+  target: 'code',
+  enforcement: 'hard',
+};
+
+const result = (ruleId: string): RuleExecutionResult => ({
+  ruleId,
+  ruleType: 'pattern',
+  enforcement: 'hard',
+  passed: true,
+  executionTime: 3,
+});
+
+describe('RuleResultCache', () => {
+  let tempDir: string;
+  let cacheDir: string;
+  let logger: TestLogger;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rule-result-cache-'));
+    cacheDir = path.join(tempDir, '.mcp', 'rule-cache');
+    logger = new TestLogger();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep results on disk for the next session', async () => {
+    await new RuleResultCache(cacheDir, logger).set('k1', result('a'));
+
+    const cache = new RuleResultCache(cacheDir, logger);
+    expect(await cache.get('k1')).toEqual(result('a'));
+    expect(await cache.get('k2')).toBeNull();
+    expect(await cache.getStats()).toEqual({
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+      entries: 1,
+      diskEntries: 1,
+    });
+  });
+
+  it('should evict the least recently used entries from memory', async () => {
+    const cache = new RuleResultCache(cacheDir, logger, 2);
+    await cache.set('k1', result('a'));
+    await cache.set('k2', result('b'));
+    await cache.get('k1');
+    await cache.set('k3', result('c'));
+
+    const stats = await cache.getStats();
+    expect(stats.entries).toBe(2);
+    expect(stats.diskEntries).toBe(3);
+    // Evicted entries are still served from disk
+    expect(await cache.get('k2')).toEqual(result('b'));
+  });
+
+  it('should clear entries when the fingerprint changes', async () => {
+    const cache = new RuleResultCache(cacheDir, logger);
+    await cache.syncFingerprint('v1');
+    await cache.set('k1', result('a'));
+
+    await cache.syncFingerprint('v1');
+    expect(await cache.get('k1')).not.toBeNull();
+
+    await cache.syncFingerprint('v2');
+    expect(await cache.get('k1')).toBeNull();
+    expect((await cache.getStats()).diskEntries).toBe(0);
+  });
+
+  it('should compare the stored fingerprint once per change', async () => {
+    const cache = new RuleResultCache(cacheDir, logger);
+    await cache.syncFingerprint('v1');
+    await cache.set('k1', result('a'));
+    const readFile = jest.spyOn(fs.promises, 'readFile');
+
+    // Rules running at once share one comparison and one clear
+    await Promise.all([
+      cache.syncFingerprint('v2').then(() => cache.set('k2', result('b'))),
+      cache.syncFingerprint('v2').then(() => cache.set('k3', result('c'))),
+    ]);
+    await cache.syncFingerprint('v2');
+
+    expect(
+      readFile.mock.calls.filter(([file]) =>
+        String(file).endsWith('fingerprint')
+      )
+    ).toHaveLength(1);
+    readFile.mockRestore();
+    expect(await cache.get('k1')).toBeNull();
+    expect(await cache.get('k2')).toEqual(result('b'));
+    expect(await cache.get('k3')).toEqual(result('c'));
+  });
+
+  describe('computeRuleCacheKey', () => {
+    it('should depend on inputs, not on the phase or user', async () => {
+      const key = await computeRuleCacheKey(rule, {
+        phase: 'coded',
+        target: 'code',
+        code: 'a',
+        metadata: { user: 'alice', ticket: 'T-1' },
+      });
+
+      expect(
+        await computeRuleCacheKey(rule, {
+          phase: 'reviewed',
+          target: 'code',
+          code: 'a',
+          metadata: { ticket: 'T-1', user: 'bob' },
+        })
+      ).toBe(key);
+      expect(
+        await computeRuleCacheKey(rule, {
+          phase: 'coded',
+          target: 'code',
+          code: 'b',
+          metadata: { user: 'alice', ticket: 'T-1' },
+        })
+      ).not.toBe(key);
+      expect(
+        await computeRuleCacheKey({ ...rule, pattern: 'FIXME' } as any, {
+          phase: 'coded',
+          target: 'code',
+          code: 'a',
+          metadata: { user: 'alice', ticket: 'T-1' },
+        })
+      ).not.toBe(key);
+    });
+
+    it('should keep workspaces with the same inputs apart', async () => {
+      const otherRoot = path.join(tempDir, 'other');
+      fs.mkdirSync(otherRoot);
+      for (const root of [tempDir, otherRoot]) {
+        fs.writeFileSync(path.join(root, 'a.ts'), 'same');
+      }
+      const context = (workspaceRoot: string) => ({
+        phase: 'coded',
+        target: 'code',
+        code: 'a',
+        workspaceRoot,
+        files: ['a.ts'],
+      });
+
+      expect(await computeRuleCacheKey(rule, context(tempDir))).not.toBe(
+        await computeRuleCacheKey(rule, context(otherRoot))
+      );
+    });
+
+    it('should change when a target file changes', async () => {
+      fs.writeFileSync(path.join(tempDir, 'a.ts'), 'one');
+      const context = {
+        phase: 'coded',
+        target: 'code',
+        workspaceRoot: tempDir,
+        files: ['a.ts'],
+      };
+      const before = await computeRuleCacheKey(rule, context);
+
+      fs.writeFileSync(path.join(tempDir, 'a.ts'), 'two');
+
+      expect(await computeRuleCacheKey(rule, context)).not.toBe(before);
+    });
+  });
+
+  it('should not cache rules that read outside the context or opt out', () => {
+    expect(isCacheableRule(rule)).toBe(true);
+    expect(isCacheableRule({ ...rule, cache: false })).toBe(false);
+    expect(
+      isCacheableRule({
+        id: 'msg',
+        type: 'commit-message',
+        pattern: '^feat',
+        enforcement: 'soft',
+      })
+    ).toBe(false);
+  });
+});
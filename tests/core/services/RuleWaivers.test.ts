@@ -0,0 +1,91 @@
+/**
+ * Rule Waiver Tests
+ */
+
+import {
+  findWaivers,
+  isWaiverExpired,
+  waiverInScope,
+} from '../../../src/core/services/RuleWaivers';
+import type {
+  RuleExecutionContextType,
+  WaiverType,
+} from '../../../src/core/schemas/RuleEngineSchemas';
+
+const context: RuleExecutionContextType = {
+  phase: 'coded',
+  target: 'code',
+  files: ['src/legacy/a.ts', 'src/legacy/b.ts'],
+  metadata: { branch: 'release/1.2', ticket: 'OPS-42' },
+};
+
+const waiver = (scope: WaiverType['scope'], expires = '2025-07-01') => ({
+  rule: 'coverage',
+  scope,
+  reason: 'Migration in progress',
+  author: 'bob',
+  expires,
+});
+
+describe('RuleWaivers', () => {
+  it('should require every scope clause to match', () => {
+    expect(waiverInScope(waiver({ branch: 'release/*' }), context)).toBe(true);
+    expect(
+      waiverInScope(waiver({ ticket: ['OPS-1', 'OPS-42'] }), context)
+    ).toBe(true);
+    expect(
+      waiverInScope(waiver({ branch: 'release/*', ticket: 'OPS-1' }), context)
+    ).toBe(false);
+    expect(waiverInScope(waiver({ branch: 'main' }), context)).toBe(false);
+  });
+
+  it('should only match files when every changed file is covered', () => {
+    expect(waiverInScope(waiver({ files: 'src/legacy/**' }), context)).toBe(
+      true
+    );
+    expect(waiverInScope(waiver({ files: 'src/legacy/a.ts' }), context)).toBe(
+      false
+    );
+    const { files: _files, ...withoutFiles } = context;
+    expect(waiverInScope(waiver({ files: 'src/**' }), withoutFiles)).toBe(
+      false
+    );
+  });
+
+  it('should split matching waivers into active and expired', () => {
+    const now = new Date('2025-06-15T12:00:00Z');
+    const matches = findWaivers(
+      {
+        current: waiver({ branch: 'release/*' }),
+        lapsed: waiver({ ticket: 'OPS-42' }, '2025-06-01'),
+        elsewhere: waiver({ branch: 'main' }),
+        other: { ...waiver({ branch: 'release/*' }), rule: 'lint' },
+      },
+      'coverage',
+      context,
+      now
+    );
+
+    expect(matches.active.map(entry => entry.id)).toEqual(['current']);
+    expect(matches.expired.map(entry => entry.id)).toEqual(['lapsed']);
+    expect(findWaivers(undefined, 'coverage', context, now)).toEqual({
+      active: [],
+      expired: [],
+    });
+  });
+
+  it('should keep date-only waivers in force through their last day', () => {
+    const lastDay = waiver({ branch: 'release/*' }, '2025-06-30');
+    const at = (time: string) => isWaiverExpired(lastDay, new Date(time));
+
+    expect(at('2025-06-30T00:00:00Z')).toBe(false);
+    expect(at('2025-06-30T23:59:59Z')).toBe(false);
+    expect(at('2025-07-01T00:00:00Z')).toBe(true);
+    expect(
+      isWaiverExpired(
+        waiver({ branch: 'release/*' }, '2025-06-30T12:00:00Z'),
+        new Date('2025-06-30T12:00:00Z')
+      )
+    ).toBe(true);
+  });
+});
@@ -15,6 +15,11 @@ import type {
   IRuleExecutorFactory,
   IRuleExecutor,
 } from '../../src/core/services/RuleExecutors';
+import {
+  CommitMessageRuleExecutor,
+  SecurityPostureRuleExecutor,
+  StructureRuleExecutor,
+} from '../../src/core/services/RuleExecutors';
 import type {
   SupervisorConfigType,
   SupervisorRuleType,
@@ -211,9 +216,9 @@ export class TestConfigurationManager implements IConfigurationManager {
         'security-deps': {
           id: 'security-deps',
           type: 'security-posture',
-          check: 'dependency-scan',
+          check: 'lockfile',
           enforcement: 'hard',
-          message: 'Dependencies must pass security scan',
+          message: 'Dependencies must be pinned by a lockfile',
         },
         'structure-required': {
           id: 'structure-required',
@@ -372,10 +377,11 @@ export class TestPluginManager implements IPluginManager {
   async executePlugin(
     name: string,
     input: unknown,
-    config: PluginConfigType
+    config: PluginConfigType,
+    signal?: AbortSignal
   ): Promise<RuleResultType> {
     const plugin = this.getPlugin(name);
-    return await plugin.execute(input, config);
+    return await plugin.execute(input, config, signal);
   }
 
   validatePluginConfig(name: string, config: PluginConfigType): boolean {
@@ -461,6 +467,9 @@ export class TestRuleExecutorFactory implements IRuleExecutorFactory {
     this.registerExecutor(
       new TestPluginExecutor(pluginManager || new TestPluginManager())
     );
+    this.registerExecutor(new CommitMessageRuleExecutor(new TestLogger()));
+    this.registerExecutor(new StructureRuleExecutor(new TestLogger()));
+    this.registerExecutor(new SecurityPostureRuleExecutor(new TestLogger()));
   }
 
   createExecutor(ruleType: SupervisorRuleType['type']): IRuleExecutor {